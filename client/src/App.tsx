@@ -15,6 +15,7 @@ import EcoComparison from "@/pages/EcoComparison";
 import Analytics from "@/pages/Analytics";
 import Landing from "@/pages/Landing";
 import Home from "@/pages/Home";
+import Login from "@/pages/Login";
 import BottomNavigation from "@/components/BottomNavigation";
 import StatusBar from "@/components/StatusBar";
 import ChatAssistant from "@/components/ChatAssistant";
@@ -31,6 +32,7 @@ function Router() {
       <Route path="/qr-generator" component={QRGenerator} />
       <Route path="/eco-comparison" component={EcoComparison} />
       <Route path="/analytics" component={Analytics} />
+      <Route path="/login" component={Login} />
       <Route component={NotFound} />
     </Switch>
   );
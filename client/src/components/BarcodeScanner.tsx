@@ -113,7 +113,7 @@ export default function BarcodeScanner({ onScanSuccess, onClose }: BarcodeScanne
 
   // Fallback function for testing when native detection isn't available
   const simulateScan = () => {
-    const sampleBarcodes = ["123456789012", "789012345678", "456789012345"];
+    const sampleBarcodes = ["123456789012", "789012345674", "456789012343"];
     const randomBarcode = sampleBarcodes[Math.floor(Math.random() * sampleBarcodes.length)];
     onScanSuccess(randomBarcode);
   };
@@ -27,7 +27,6 @@ export default function ChatAssistant() {
     mutationFn: async (message: string) => {
       return apiRequest<ChatResponse>("/api/chat", "POST", {
         message,
-        userId,
       });
     },
     onSuccess: () => {
@@ -38,7 +37,7 @@ export default function ChatAssistant() {
 
   const clearHistoryMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("DELETE", `/api/chat/${userId}`);
+      return apiRequest("DELETE", "/api/chat");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/chat", userId] });
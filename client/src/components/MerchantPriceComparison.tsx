@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { 
   RefreshCw, ExternalLink, TrendingDown, TrendingUp, 
   Store, ShoppingCart, AlertCircle, CheckCircle 
@@ -10,15 +11,29 @@ import {
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ProductWithPrices } from "@shared/schema";
+import { lowestPrice as findLowestPrice, priceMoney, formatPrice } from "@/lib/prices";
+import {
+  formatMoney,
+  minMoney,
+  maxMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+  type Money
+} from "@shared/money";
+import type { Offer, Price, ProductWithPrices, Retailer } from "@shared/schema";
 
 interface MerchantPriceComparisonProps {
   product: ProductWithPrices;
+  savings?: Money; // Server-computed savings from the scan result
+  offers?: Offer[]; // Scan result offers, carrying prices converted to the display currency
   className?: string;
 }
 
-export default function MerchantPriceComparison({ product, className }: MerchantPriceComparisonProps) {
+export default function MerchantPriceComparison({ product, savings: serverSavings, offers, className }: MerchantPriceComparisonProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [sortBy, setSortBy] = useState<"price" | "landed">("price");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -34,7 +49,7 @@ export default function MerchantPriceComparison({ product, className }: Merchant
         description: data.message || "Merchant prices have been refreshed",
       });
       // Invalidate and refetch product data
-      queryClient.invalidateQueries({ queryKey: ["/api/scan"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products", product.barcode] });
     },
     onError: (error) => {
       toast({
@@ -48,29 +63,28 @@ export default function MerchantPriceComparison({ product, className }: Merchant
     }
   });
 
-  const getPriceValue = (priceString: string): number => {
-    return parseFloat(priceString.replace(/[^0-9.]/g, ''));
-  };
+  // Only prices in the currency of the first one are compared
+  const currency = product.prices?.[0]?.currency ?? "USD";
+  const comparableAmounts = (product.prices || []).filter(p => p.currency === currency).map(priceMoney);
 
-  const getLowestPrice = () => {
-    if (!product.prices || product.prices.length === 0) return null;
-    return product.prices.reduce((lowest, current) => 
-      getPriceValue(current.price) < getPriceValue(lowest.price) ? current : lowest
-    );
-  };
+  const offersByRetailer = new Map((offers || []).map(o => [o.retailer, o]));
 
-  const getHighestPrice = () => {
-    if (!product.prices || product.prices.length === 0) return null;
-    return product.prices.reduce((highest, current) => 
-      getPriceValue(current.price) > getPriceValue(highest.price) ? current : highest
-    );
+  // Landed cost (price + shipping + tax) in the display currency; null when unknown
+  const landedAmount = (price: Price & { retailer: Retailer }): number | null =>
+    offersByRetailer.get(price.retailer.name)?.convertedLandedCost?.amountMinor ?? null;
+
+  const getLowestPrice = () => findLowestPrice(product.prices || []);
+
+  const calculateSavings = (): Money => {
+    const lowest = minMoney(comparableAmounts);
+    const highest = maxMoney(comparableAmounts);
+    if (!lowest || !highest) return zeroMoney(currency);
+    return subtractMoney(highest, lowest);
   };
 
-  const calculateSavings = () => {
-    const lowest = getLowestPrice();
-    const highest = getHighestPrice();
-    if (!lowest || !highest) return 0;
-    return getPriceValue(highest.price) - getPriceValue(lowest.price);
+  const getAveragePrice = (): Money | null => {
+    if (comparableAmounts.length === 0) return null;
+    return multiplyMoney(sumMoney(comparableAmounts, currency), 1 / comparableAmounts.length);
   };
 
   const getStockStatus = (stock: string) => {
@@ -137,8 +151,19 @@ export default function MerchantPriceComparison({ product, className }: Merchant
     );
   }
 
+  const sortedPrices = [...product.prices].sort((a, b) => {
+    if (sortBy === "landed") {
+      const landedA = landedAmount(a);
+      const landedB = landedAmount(b);
+      if (landedA !== null && landedB !== null && landedA !== landedB) return landedA - landedB;
+      if ((landedA === null) !== (landedB === null)) return landedA === null ? 1 : -1;
+    }
+    return a.currency.localeCompare(b.currency) || a.priceMinor - b.priceMinor;
+  });
+
   const lowestPrice = getLowestPrice();
-  const savings = calculateSavings();
+  const bestPrice = sortBy === "landed" && landedAmount(sortedPrices[0]) !== null ? sortedPrices[0] : lowestPrice;
+  const savings = serverSavings ?? calculateSavings();
 
   return (
     <Card className={className}>
@@ -161,17 +186,17 @@ export default function MerchantPriceComparison({ product, className }: Merchant
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Price Summary */}
-        {savings > 0 && (
+        {savings.amountMinor > 0 && (
           <div className="bg-green-50 p-4 rounded-lg border border-green-200">
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-semibold text-green-800">Potential Savings</h3>
                 <p className="text-sm text-green-600">
-                  Save up to ${savings.toFixed(2)} by choosing the best price
+                  Save up to {formatMoney(savings)} by choosing the best price
                 </p>
               </div>
               <div className="text-2xl font-bold text-green-600">
-                ${savings.toFixed(2)}
+                {formatMoney(savings)}
               </div>
             </div>
           </div>
@@ -179,17 +204,32 @@ export default function MerchantPriceComparison({ product, className }: Merchant
 
         {/* Merchant Prices */}
         <div className="space-y-3">
-          <h3 className="font-semibold flex items-center gap-2">
-            <ShoppingCart className="h-4 w-4" />
-            Prices by Merchant ({product.prices.length})
-          </h3>
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold flex items-center gap-2">
+              <ShoppingCart className="h-4 w-4" />
+              Prices by Merchant ({product.prices.length})
+            </h3>
+            {offers && (
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={sortBy}
+                onValueChange={(value) => value && setSortBy(value as "price" | "landed")}
+              >
+                <ToggleGroupItem value="price">Price</ToggleGroupItem>
+                <ToggleGroupItem value="landed">Landed cost</ToggleGroupItem>
+              </ToggleGroup>
+            )}
+          </div>
           
-          {product.prices
-            .sort((a, b) => getPriceValue(a.price) - getPriceValue(b.price))
+          {sortedPrices
             .map((priceInfo, index) => {
-              const isLowest = lowestPrice && priceInfo.id === lowestPrice.id;
+              const isLowest = bestPrice && priceInfo.id === bestPrice.id;
               const stockStatus = getStockStatus(priceInfo.stock || '');
               const StockIcon = stockStatus.icon;
+              const offer = offersByRetailer.get(priceInfo.retailer.name);
+              const converted = offer?.convertedPrice;
+              const landed = offer?.landedCost;
               
               return (
                 <div 
@@ -220,8 +260,18 @@ export default function MerchantPriceComparison({ product, className }: Merchant
                     
                     <div className="text-right">
                       <div className={`text-xl font-bold ${isLowest ? 'text-green-600' : 'text-gray-900'}`}>
-                        {priceInfo.price}
+                        {formatPrice(priceInfo)}
                       </div>
+                      {converted && converted.currency !== priceInfo.currency && (
+                        <div className="text-xs text-gray-500">≈ {formatMoney(converted)}</div>
+                      )}
+                      {landed && (
+                        <div className="text-xs text-gray-500">
+                          {formatMoney(landed.total)} with{" "}
+                          {landed.freeShipping ? "free shipping" : landed.shipping ? "shipping" : "unknown shipping"}
+                          {landed.tax.amountMinor > 0 && " & tax"}
+                        </div>
+                      )}
                       {priceInfo.url && (
                         <Button
                           variant="outline"
@@ -247,7 +297,7 @@ export default function MerchantPriceComparison({ product, className }: Merchant
           <div className="text-center p-3 bg-gray-50 rounded">
             <div className="font-semibold">Lowest Price</div>
             <div className="text-green-600 font-bold">
-              {lowestPrice ? lowestPrice.price : 'N/A'}
+              {lowestPrice ? formatPrice(lowestPrice) : 'N/A'}
             </div>
             {lowestPrice && (
               <div className="text-xs text-gray-600">{lowestPrice.retailer.name}</div>
@@ -256,9 +306,7 @@ export default function MerchantPriceComparison({ product, className }: Merchant
           <div className="text-center p-3 bg-gray-50 rounded">
             <div className="font-semibold">Average Price</div>
             <div className="text-blue-600 font-bold">
-              ${product.prices.length > 0 ? 
-                (product.prices.reduce((sum, p) => sum + getPriceValue(p.price), 0) / product.prices.length).toFixed(2) 
-                : '0.00'}
+              {formatMoney(getAveragePrice() ?? zeroMoney(currency))}
             </div>
             <div className="text-xs text-gray-600">Across {product.prices.length} merchants</div>
           </div>
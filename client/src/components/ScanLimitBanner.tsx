@@ -5,31 +5,31 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Crown, AlertTriangle, Zap } from "lucide-react";
-import { useAuth } from "@/hooks/useAuth";
 import SubscriptionPlans from "./SubscriptionPlans";
+import type { SubscriptionStatus } from "@shared/schema";
 
 interface ScanLimitBannerProps {
   onUpgrade?: () => void;
 }
 
 export default function ScanLimitBanner({ onUpgrade }: ScanLimitBannerProps) {
-  const { user } = useAuth();
   const [showUpgrade, setShowUpgrade] = useState(false);
 
-  const { data: subscriptionStatus } = useQuery({
+  // Anonymous visitors have the free plan's limit too. Refetched on mount, since scans
+  // elsewhere in the app use up the allowance.
+  const { data: subscriptionStatus } = useQuery<SubscriptionStatus>({
     queryKey: ["/api/subscription/status"],
-    enabled: !!user,
+    refetchOnMount: "always",
   });
 
-  if (!subscriptionStatus || !user) return null;
+  if (!subscriptionStatus) return null;
 
   const { tier, scanLimits } = subscriptionStatus;
-  const isFreeTier = tier === "free" || !tier;
   
-  if (!isFreeTier) return null; // Only show for free tier users
+  if (scanLimits.dailyLimit === null) return null; // Only show for plans with a daily limit
 
-  const scansUsed = scanLimits?.scansUsed || 0;
-  const dailyLimit = scanLimits?.dailyLimit || 10;
+  const scansUsed = scanLimits.scansUsed;
+  const dailyLimit = scanLimits.dailyLimit;
   const scansRemaining = Math.max(0, dailyLimit - scansUsed);
   const usagePercentage = (scansUsed / dailyLimit) * 100;
 
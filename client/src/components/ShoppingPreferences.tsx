@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useShoppingPreferences } from "@/hooks/useShoppingPreferences";
+import { useToast } from "@/hooks/use-toast";
+import { MEMBERSHIPS, SALES_TAX_RATES } from "@shared/landedCost";
+import type { ExchangeRates } from "@shared/money";
+import type { UserPreferences } from "@shared/schema";
+
+const MEMBERSHIP_NAMES: Record<string, string> = {
+  amazon_prime: "Amazon Prime",
+  walmart_plus: "Walmart+",
+  target_circle_360: "Target Circle 360",
+  my_best_buy_plus: "My Best Buy Plus",
+  costco_executive: "Costco Executive",
+};
+
+const NO_REGION = "none";
+
+// Settings that change how prices are shown and totalled
+export default function ShoppingPreferences() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { preferences, updatePreferences, isUpdating } = useShoppingPreferences();
+
+  const { data: exchangeRates } = useQuery<ExchangeRates>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  // Only currencies with a known exchange rate can be picked
+  const currencies = exchangeRates
+    ? [exchangeRates.base, ...Object.keys(exchangeRates.rates)].sort()
+    : [];
+
+  const save = async (updates: UserPreferences) => {
+    try {
+      await updatePreferences(updates);
+      toast({ title: "Preferences saved" });
+    } catch {
+      toast({ title: "Failed to save preferences", variant: "destructive" });
+    }
+  };
+
+  const toggleMembership = (membership: string, checked: boolean) => {
+    const memberships = preferences.memberships.filter(m => m !== membership);
+    save({ memberships: checked ? [...memberships, membership] : memberships });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          Shopping Preferences
+        </CardTitle>
+        <CardDescription>Prices are converted and totalled using these settings</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user && (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="preferred-currency">Display currency</Label>
+            <Select
+              value={user.preferredCurrency ?? undefined}
+              onValueChange={(preferredCurrency) => save({ preferredCurrency })}
+              disabled={currencies.length === 0 || isUpdating}
+            >
+              <SelectTrigger id="preferred-currency" className="w-32">
+                <SelectValue placeholder="Currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="sales-tax-region">Sales tax state</Label>
+          <Select
+            value={preferences.region ?? NO_REGION}
+            onValueChange={(region) => save({ region: region === NO_REGION ? null : region })}
+            disabled={isUpdating}
+          >
+            <SelectTrigger id="sales-tax-region" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REGION}>None</SelectItem>
+              {Object.keys(SALES_TAX_RATES).sort().map((region) => (
+                <SelectItem key={region} value={region}>{region}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Memberships with free shipping</Label>
+          {MEMBERSHIPS.map((membership) => (
+            <div key={membership} className="flex items-center gap-2">
+              <Checkbox
+                id={`membership-${membership}`}
+                checked={preferences.memberships.includes(membership)}
+                onCheckedChange={(checked) => toggleMembership(membership, checked === true)}
+                disabled={isUpdating}
+              />
+              <Label htmlFor={`membership-${membership}`} className="font-normal">
+                {MEMBERSHIP_NAMES[membership] ?? membership}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
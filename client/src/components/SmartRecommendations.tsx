@@ -6,6 +6,7 @@ import { Star, TrendingUp, Heart, ShoppingCart, Sparkles } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { lowestPrice, formatPrice } from "@/lib/prices";
 import type { ProductWithPrices, ScanHistory } from "@shared/schema";
 
 interface SmartRecommendationsProps {
@@ -72,10 +73,12 @@ export default function SmartRecommendations({ className }: SmartRecommendations
         sustainabilityCertifications: ["Energy Star"],
         packagingType: "Recyclable",
         isEcoFriendly: true,
+        dataSources: null,
+        pricesRefreshedAt: null,
         prices: [
-          { id: 7, productId: 3, retailerId: 1, price: "$249.00", stock: "In Stock", url: "", retailer: { id: 1, name: "Target", logo: "T" } },
-          { id: 8, productId: 3, retailerId: 2, price: "$269.99", stock: "Limited", url: "", retailer: { id: 2, name: "Walmart", logo: "W" } },
-          { id: 9, productId: 3, retailerId: 3, price: "$239.99", stock: "Prime", url: "", retailer: { id: 3, name: "Amazon", logo: "A" } }
+          { id: 7, productId: 3, retailerId: 1, priceMinor: 24900, currency: "USD", stock: "In Stock", url: "", shippingMinor: null, retailer: { id: 1, name: "Target", logo: "T" } },
+          { id: 8, productId: 3, retailerId: 2, priceMinor: 26999, currency: "USD", stock: "Limited", url: "", shippingMinor: null, retailer: { id: 2, name: "Walmart", logo: "W" } },
+          { id: 9, productId: 3, retailerId: 3, priceMinor: 23999, currency: "USD", stock: "Prime", url: "", shippingMinor: null, retailer: { id: 3, name: "Amazon", logo: "A" } }
         ],
         recommendationScore: 92,
         reasons: [
@@ -98,10 +101,12 @@ export default function SmartRecommendations({ className }: SmartRecommendations
         sustainabilityCertifications: ["USDA Organic", "Rainforest Alliance", "Fair Trade"],
         packagingType: "Biodegradable",
         isEcoFriendly: true,
+        dataSources: null,
+        pricesRefreshedAt: null,
         prices: [
-          { id: 10, productId: 4, retailerId: 1, price: "$8.99", stock: "In Stock", url: "", retailer: { id: 1, name: "Target", logo: "T" } },
-          { id: 11, productId: 4, retailerId: 2, price: "$9.49", stock: "In Stock", url: "", retailer: { id: 2, name: "Walmart", logo: "W" } },
-          { id: 12, productId: 4, retailerId: 3, price: "$7.99", stock: "Prime", url: "", retailer: { id: 3, name: "Amazon", logo: "A" } }
+          { id: 10, productId: 4, retailerId: 1, priceMinor: 899, currency: "USD", stock: "In Stock", url: "", shippingMinor: null, retailer: { id: 1, name: "Target", logo: "T" } },
+          { id: 11, productId: 4, retailerId: 2, priceMinor: 949, currency: "USD", stock: "In Stock", url: "", shippingMinor: null, retailer: { id: 2, name: "Walmart", logo: "W" } },
+          { id: 12, productId: 4, retailerId: 3, priceMinor: 799, currency: "USD", stock: "Prime", url: "", shippingMinor: null, retailer: { id: 3, name: "Amazon", logo: "A" } }
         ],
         recommendationScore: 88,
         reasons: [
@@ -144,8 +149,8 @@ export default function SmartRecommendations({ className }: SmartRecommendations
   };
 
   const getBestPrice = (product: RecommendedProduct) => {
-    const prices = product.prices.map(p => parseFloat(p.price.replace(/[$,]/g, '')));
-    return Math.min(...prices);
+    const bestPrice = lowestPrice(product.prices);
+    return bestPrice ? formatPrice(bestPrice) : "N/A";
   };
 
   if (recommendations.length === 0) {
@@ -206,7 +211,7 @@ export default function SmartRecommendations({ className }: SmartRecommendations
                   <div className="flex items-center justify-between mb-3">
                     <div>
                       <span className="font-semibold text-green-600">
-                        ${getBestPrice(product).toFixed(2)}
+                        {getBestPrice(product)}
                       </span>
                       {product.estimatedSavings && (
                         <span className="text-xs text-gray-600 ml-1">
@@ -2,71 +2,14 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Check, Crown, Zap, Building } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatMoney, money } from "@shared/money";
 import type { SubscriptionPlan } from "@shared/schema";
 
-const PLANS: SubscriptionPlan[] = [
-  {
-    id: "free",
-    name: "Free",
-    price: "0.00",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "10 scans per day",
-      "Basic price comparison",
-      "Scan history (7 days)",
-      "Community support"
-    ],
-    dailyScanLimit: 10,
-    priceAlerts: false,
-    bulkScanning: false,
-    analytics: false,
-    apiAccess: false
-  },
-  {
-    id: "premium",
-    name: "Premium",
-    price: "4.99",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "Unlimited scans",
-      "Price alerts & notifications",
-      "Advanced analytics",
-      "Extended scan history (90 days)",
-      "Priority support",
-      "Export data"
-    ],
-    priceAlerts: true,
-    bulkScanning: true,
-    analytics: true,
-    apiAccess: false
-  },
-  {
-    id: "business",
-    name: "Business",
-    price: "19.99",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "Everything in Premium",
-      "API access (1000 calls/month)",
-      "Bulk scanning tools",
-      "Team collaboration",
-      "Custom integrations",
-      "Dedicated support"
-    ],
-    priceAlerts: true,
-    bulkScanning: true,
-    analytics: true,
-    apiAccess: true
-  }
-];
-
 interface SubscriptionPlansProps {
   currentPlan?: string;
   onPlanSelect?: (planId: string) => void;
@@ -76,10 +19,26 @@ export default function SubscriptionPlans({ currentPlan = "free", onPlanSelect }
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const [billingInterval, setBillingInterval] = useState<"month" | "year" | null>(null);
+
+  const { data: plans = [] } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/plans"],
+  });
+
+  // Start on the current plan's billing interval; the free plan shows under both
+  const current = plans.find((plan) => plan.id === currentPlan);
+  const shownInterval = billingInterval ?? (current?.priceMinor ? current.interval : "month");
+  const hasYearly = plans.some((plan) => plan.interval === "year" && plan.priceMinor > 0);
+  const shownPlans = plans.filter((plan) => plan.priceMinor === 0 || plan.interval === shownInterval);
+  const paidPlanIds = shownPlans.filter((plan) => plan.priceMinor > 0).map((plan) => plan.id);
 
   const subscribeMutation = useMutation({
     mutationFn: async (planId: string) => {
-      return apiRequest("POST", "/api/subscription/subscribe", { planId });
+      // Moving to the free plan cancels renewal; the paid plan runs until it expires
+      const response = plans.find((plan) => plan.id === planId)?.priceMinor === 0
+        ? await apiRequest("POST", "/api/subscription/cancel")
+        : await apiRequest("POST", "/api/subscription/subscribe", { planId });
+      return response.json();
     },
     onSuccess: (data) => {
       if (data.paymentUrl) {
@@ -114,8 +73,14 @@ export default function SubscriptionPlans({ currentPlan = "free", onPlanSelect }
     }
   };
 
-  const getPlanIcon = (planId: string) => {
-    switch (planId) {
+  // Paid plans are styled by rank: the first like Premium, the rest like Business
+  const getPlanStyle = (plan: SubscriptionPlan) => {
+    if (plan.priceMinor === 0) return "free";
+    return paidPlanIds.indexOf(plan.id) === 0 ? "premium" : "business";
+  };
+
+  const getPlanIcon = (plan: SubscriptionPlan) => {
+    switch (getPlanStyle(plan)) {
       case "premium":
         return <Crown className="h-6 w-6 text-yellow-500" />;
       case "business":
@@ -125,78 +90,88 @@ export default function SubscriptionPlans({ currentPlan = "free", onPlanSelect }
     }
   };
 
-  const getPlanBadge = (planId: string) => {
-    if (planId === currentPlan) {
+  const getPlanBadge = (plan: SubscriptionPlan) => {
+    if (plan.id === currentPlan) {
       return <Badge variant="secondary">Current Plan</Badge>;
     }
-    if (planId === "premium") {
-      return <Badge className="bg-yellow-500 hover:bg-yellow-600">Most Popular</Badge>;
-    }
-    if (planId === "business") {
-      return <Badge className="bg-purple-500 hover:bg-purple-600">Best Value</Badge>;
-    }
-    return null;
+    if (!plan.badge) return null;
+    return getPlanStyle(plan) === "business"
+      ? <Badge className="bg-purple-500 hover:bg-purple-600">{plan.badge}</Badge>
+      : <Badge className="bg-yellow-500 hover:bg-yellow-600">{plan.badge}</Badge>;
   };
 
   return (
-    <div className="grid md:grid-cols-3 gap-6 max-w-6xl mx-auto">
-      {PLANS.map((plan) => (
-        <Card 
-          key={plan.id} 
-          className={`relative transition-all duration-200 hover:shadow-lg ${
-            plan.id === currentPlan 
-              ? "ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-950" 
-              : plan.id === "premium" 
-              ? "border-yellow-200 dark:border-yellow-800" 
-              : ""
-          }`}
-        >
-          <CardHeader className="text-center">
-            <div className="flex items-center justify-center mb-2">
-              {getPlanIcon(plan.id)}
-            </div>
-            <CardTitle className="text-xl">{plan.name}</CardTitle>
-            {getPlanBadge(plan.id)}
-            <div className="mt-4">
-              <span className="text-3xl font-bold">${plan.price}</span>
-              <span className="text-gray-500 dark:text-gray-400">/{plan.interval}</span>
-            </div>
-          </CardHeader>
-          
-          <CardContent className="space-y-4">
-            <ul className="space-y-3">
-              {plan.features.map((feature, index) => (
-                <li key={index} className="flex items-start gap-2">
-                  <Check className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">{feature}</span>
-                </li>
-              ))}
-            </ul>
+    <div className="max-w-6xl mx-auto">
+      {hasYearly && (
+        <Tabs value={shownInterval} onValueChange={(value) => setBillingInterval(value as "month" | "year")} className="flex justify-center mb-6">
+          <TabsList>
+            <TabsTrigger value="month">Monthly</TabsTrigger>
+            <TabsTrigger value="year">Yearly</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {shownPlans.map((plan) => (
+          <Card 
+            key={plan.id} 
+            className={`relative transition-all duration-200 hover:shadow-lg ${
+              plan.id === currentPlan 
+                ? "ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-950" 
+                : getPlanStyle(plan) === "premium" 
+                ? "border-yellow-200 dark:border-yellow-800" 
+                : ""
+            }`}
+          >
+            <CardHeader className="text-center">
+              <div className="flex items-center justify-center mb-2">
+                {getPlanIcon(plan)}
+              </div>
+              <CardTitle className="text-xl">{plan.name}</CardTitle>
+              {getPlanBadge(plan)}
+              <div className="mt-4">
+                <span className="text-3xl font-bold">{formatMoney(money(plan.priceMinor, plan.currency))}</span>
+                <span className="text-gray-500 dark:text-gray-400">/{plan.interval}</span>
+              </div>
+            </CardHeader>
             
-            <Button 
-              onClick={() => handleSelectPlan(plan.id)}
-              disabled={plan.id === currentPlan || subscribeMutation.isPending}
-              className={`w-full ${
-                plan.id === "premium" 
-                  ? "bg-yellow-500 hover:bg-yellow-600 text-white" 
-                  : plan.id === "business"
-                  ? "bg-purple-500 hover:bg-purple-600 text-white"
-                  : ""
-              }`}
-              variant={plan.id === currentPlan ? "secondary" : "default"}
-            >
-              {subscribeMutation.isPending && selectedPlan === plan.id
-                ? "Processing..."
-                : plan.id === currentPlan
-                ? "Current Plan"
-                : plan.id === "free"
-                ? "Downgrade"
-                : "Upgrade Now"
-              }
-            </Button>
-          </CardContent>
-        </Card>
-      ))}
+            <CardContent className="space-y-4">
+              <ul className="space-y-3">
+                {plan.features.map((feature, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <Check className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{feature}</span>
+                  </li>
+                ))}
+              </ul>
+              
+              <Button 
+                onClick={() => handleSelectPlan(plan.id)}
+                disabled={plan.id === currentPlan || subscribeMutation.isPending}
+                className={`w-full ${
+                  getPlanStyle(plan) === "premium" 
+                    ? "bg-yellow-500 hover:bg-yellow-600 text-white" 
+                    : getPlanStyle(plan) === "business"
+                    ? "bg-purple-500 hover:bg-purple-600 text-white"
+                    : ""
+                }`}
+                variant={plan.id === currentPlan ? "secondary" : "default"}
+              >
+                {subscribeMutation.isPending && selectedPlan === plan.id
+                  ? "Processing..."
+                  : plan.id === currentPlan
+                  ? "Current Plan"
+                  : plan.priceMinor === 0
+                  ? "Downgrade"
+                  : current?.priceMinor
+                  ? "Switch Plan"
+                  : "Upgrade Now"
+                }
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import type { PublicUser, UserPreferences } from "@shared/schema";
+
+export interface LandedCostPreferences {
+  region: string | null; // US state code for sales tax
+  memberships: string[];
+}
+
+// Where landed costs are worked out for: saved with the account when signed in,
+// kept in this browser otherwise
+export function useShoppingPreferences() {
+  const { user } = useAuth();
+  const [guestPreferences, setGuestPreferences] = useLocalStorage<LandedCostPreferences>(
+    "shoppingPreferences",
+    { region: null, memberships: [] }
+  );
+
+  const preferences: LandedCostPreferences = user
+    ? { region: user.region, memberships: user.memberships }
+    : guestPreferences;
+
+  // Sent with scan and product lookups and part of their query keys, so changing a
+  // setting fetches fresh results instead of reusing ones priced for the old settings
+  const lookupQuery = productLookupQuery(preferences, user?.preferredCurrency);
+
+  const mutation = useMutation({
+    mutationFn: async (updates: UserPreferences) => {
+      if (!user) {
+        setGuestPreferences({ ...guestPreferences, ...updates });
+        return null;
+      }
+      const response = await apiRequest("PATCH", "/api/user/preferences", updates);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (updatedUser) => {
+      if (updatedUser) {
+        queryClient.setQueryData(["/api/auth/user"], updatedUser);
+      }
+    },
+  });
+
+  return { preferences, lookupQuery, updatePreferences: mutation.mutateAsync, isUpdating: mutation.isPending };
+}
+
+// e.g. "region=CA&memberships=amazon_prime&currency=EUR"
+function productLookupQuery({ region, memberships }: LandedCostPreferences, currency?: string | null): string {
+  const params = new URLSearchParams();
+  if (region) params.set("region", region);
+  if (memberships.length > 0) params.set("memberships", memberships.join(","));
+  if (currency) params.set("currency", currency);
+  return params.toString();
+}
@@ -35,9 +35,9 @@ export const stopScanning = () => {
 export const generateMockBarcode = (): string => {
   const codes = [
     "123456789012",
-    "789012345678",
-    "456789012345",
-    "012345678901"
+    "789012345674",
+    "456789012343",
+    "012345678905"
   ];
   return codes[Math.floor(Math.random() * codes.length)];
 };
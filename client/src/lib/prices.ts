@@ -0,0 +1,21 @@
+import { money, formatMoney, type Money } from "@shared/money";
+import type { Price } from "@shared/schema";
+
+type PriceAmount = Pick<Price, "priceMinor" | "currency">;
+
+export function priceMoney(price: PriceAmount): Money {
+  return money(price.priceMinor, price.currency);
+}
+
+export function formatPrice(price: PriceAmount): string {
+  return formatMoney(priceMoney(price));
+}
+
+// Cheapest price in the currency of the first one; prices in other currencies aren't comparable
+export function lowestPrice<T extends PriceAmount>(prices: T[]): T | null {
+  if (prices.length === 0) return null;
+  const currency = prices[0].currency;
+  return prices
+    .filter(p => p.currency === currency)
+    .reduce((lowest, current) => (current.priceMinor < lowest.priceMinor ? current : lowest));
+}
@@ -8,7 +8,7 @@ import { TrendingUp, DollarSign, Users, Target, Crown, Lock } from "lucide-react
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import SubscriptionPlans from "@/components/SubscriptionPlans";
-import type { RevenueAnalytics } from "@shared/schema";
+import type { RevenueAnalytics, SubscriptionStatus } from "@shared/schema";
 
 export default function Analytics() {
   const { user, isLoading: authLoading } = useAuth();
@@ -16,14 +16,14 @@ export default function Analytics() {
   const [timeRange, setTimeRange] = useState("30");
   const [showSubscriptions, setShowSubscriptions] = useState(false);
 
-  const { data: subscriptionStatus } = useQuery({
+  const { data: subscriptionStatus } = useQuery<SubscriptionStatus>({
     queryKey: ["/api/subscription/status"],
     enabled: !!user,
   });
 
   const { data: analytics, isLoading, error } = useQuery({
     queryKey: ["/api/analytics/revenue", timeRange],
-    enabled: !!user && subscriptionStatus?.tier !== "free",
+    enabled: !!user && !!subscriptionStatus?.entitlements.includes("analytics"),
     retry: false,
   });
 
@@ -42,7 +42,7 @@ export default function Analytics() {
     );
   }
 
-  const hasAnalyticsAccess = subscriptionStatus?.tier === "premium" || subscriptionStatus?.tier === "business";
+  const hasAnalyticsAccess = subscriptionStatus?.entitlements.includes("analytics") ?? false;
 
   if (!hasAnalyticsAccess) {
     return (
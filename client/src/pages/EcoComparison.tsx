@@ -34,6 +34,8 @@ export default function EcoComparison() {
           sustainabilityCertifications: ["Energy Star", "EPEAT Gold"],
           packagingType: "Recyclable",
           isEcoFriendly: true,
+          dataSources: null,
+          pricesRefreshedAt: null,
           prices: []
         },
         {
@@ -49,6 +51,8 @@ export default function EcoComparison() {
           sustainabilityCertifications: ["Rainforest Alliance"],
           packagingType: "Recyclable",
           isEcoFriendly: false,
+          dataSources: null,
+          pricesRefreshedAt: null,
           prices: []
         },
         {
@@ -64,6 +68,8 @@ export default function EcoComparison() {
           sustainabilityCertifications: ["GOTS Organic", "Fair Trade", "OEKO-TEX"],
           packagingType: "Biodegradable",
           isEcoFriendly: true,
+          dataSources: null,
+          pricesRefreshedAt: null,
           prices: []
         }
       ];
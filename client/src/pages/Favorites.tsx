@@ -5,6 +5,7 @@ import { Trash2, ChevronRight } from "lucide-react";
 import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { lowestPrice, formatPrice } from "@/lib/prices";
 import type { Favorite, ProductWithPrices } from "@shared/schema";
 
 type FavoriteWithProduct = Favorite & { product: ProductWithPrices };
@@ -30,13 +31,8 @@ export default function Favorites() {
   });
 
   const getBestPrice = (product: ProductWithPrices) => {
-    if (product.prices.length === 0) return "N/A";
-    const bestPrice = product.prices.reduce((min, current) => {
-      const currentPrice = parseFloat(current.price.replace('$', ''));
-      const minPrice = parseFloat(min.price.replace('$', ''));
-      return currentPrice < minPrice ? current : min;
-    });
-    return bestPrice.price;
+    const bestPrice = lowestPrice(product.prices);
+    return bestPrice ? formatPrice(bestPrice) : "N/A";
   };
 
   if (isLoading) {
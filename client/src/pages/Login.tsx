@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Mail } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Error messages look like `401: {"message":"Invalid email or password"}`
+function errorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message;
+  } catch {
+    return error.message;
+  }
+}
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [linkSent, setLinkSent] = useState(false);
+
+  const { data: providers = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", mode === "login" ? "/api/login" : "/api/register", { email, password });
+      return response.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/auth/user"], user);
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign in failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const magicLinkMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/login/magic-link", { email }),
+    onSuccess: () => setLinkSent(true),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send link", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{mode === "login" ? "Sign in" : "Create account"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 mb-4">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+
+          <Tabs defaultValue="password">
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="link">Email link</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form
+                className="space-y-4 pt-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  passwordMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete={mode === "login" ? "current-password" : "new-password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={passwordMutation.isPending}>
+                  {mode === "login" ? "Sign in" : "Create account"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => setMode(mode === "login" ? "register" : "login")}
+                >
+                  {mode === "login" ? "New here? Create an account" : "Already have an account? Sign in"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="link">
+              {linkSent ? (
+                <p className="text-sm text-gray-600 pt-2">
+                  Check {email} for a sign-in link. It expires in 15 minutes.
+                </p>
+              ) : (
+                <Button
+                  className="w-full mt-2"
+                  onClick={() => magicLinkMutation.mutate()}
+                  disabled={!email || magicLinkMutation.isPending}
+                >
+                  <Mail className="h-4 w-4 mr-2" />
+                  Email me a sign-in link
+                </Button>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          {providers.length > 0 && (
+            <div className="space-y-2 mt-4 pt-4 border-t">
+              {providers.map((provider) => (
+                <Button key={provider.id} variant="outline" className="w-full" asChild>
+                  {/* A full page load, so the server can redirect to the provider */}
+                  <a href={`/api/login/oidc/${provider.id}`}>Continue with {provider.name}</a>
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,15 +7,26 @@ import { SiX, SiFacebook, SiWhatsapp, SiTelegram } from "react-icons/si";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useShoppingPreferences } from "@/hooks/useShoppingPreferences";
+import { formatPrice } from "@/lib/prices";
 import EcoFriendlyComparison from "@/components/EcoFriendlyComparison";
 import MerchantPriceComparison from "@/components/MerchantPriceComparison";
 import QuickShareButton from "@/components/QuickShareButton";
-import type { ScanResult } from "@shared/schema";
+import type { ScanResult, ProductInfoField } from "@shared/schema";
+
+const fieldLabels: Record<ProductInfoField, string> = {
+  name: "Name",
+  brand: "Brand",
+  description: "Description",
+  imageUrl: "Image",
+  category: "Category",
+};
 
 export default function ProductDetail() {
   const params = useParams<{ barcode: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { lookupQuery } = useShoppingPreferences();
   const [needsScan, setNeedsScan] = useState(false);
   const [showShareMenu, setShowShareMenu] = useState(false);
   const shareMenuRef = useRef<HTMLDivElement>(null);
@@ -116,9 +127,9 @@ export default function ProductDetail() {
   };
 
   const { data: scanResult, isLoading, error } = useQuery<ScanResult>({
-    queryKey: [`/api/products`, params.barcode],
+    queryKey: [`/api/products`, params.barcode, lookupQuery],
     queryFn: async () => {
-      const response = await apiRequest("GET", `/api/products/${params.barcode}`);
+      const response = await apiRequest("GET", `/api/products/${params.barcode}?${lookupQuery}`);
       return response.json();
     },
     enabled: !!params.barcode,
@@ -127,12 +138,13 @@ export default function ProductDetail() {
 
   const scanMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/scan", { barcode: params.barcode });
+      const response = await apiRequest("POST", `/api/scan?${lookupQuery}`, { barcode: params.barcode });
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: ScanResult) => {
       setNeedsScan(false);
-      queryClient.invalidateQueries({ queryKey: [`/api/products`, params.barcode] });
+      // The scan already returned the product; fetching it again would be one more lookup
+      queryClient.setQueryData([`/api/products`, params.barcode, lookupQuery], data);
       queryClient.invalidateQueries({ queryKey: ["/api/history"] });
     },
     onError: (error) => {
@@ -184,11 +196,10 @@ export default function ProductDetail() {
   });
 
   const affiliateClickMutation = useMutation({
-    mutationFn: async ({ productId, retailerId, originalUrl }: { productId: number, retailerId: number, originalUrl: string }) => {
+    mutationFn: async ({ productId, retailerId }: { productId: number, retailerId: number }) => {
       const response = await apiRequest("POST", "/api/affiliate/click", {
         productId,
-        retailerId,
-        originalUrl
+        retailerId
       });
       return response.json();
     },
@@ -290,10 +301,20 @@ export default function ProductDetail() {
           {product.description && (
             <p className="text-sm text-ios-gray">{product.description}</p>
           )}
+          {product.dataSources && Object.keys(product.dataSources).length > 0 && (
+            <div className="mt-3 text-xs text-gray-500">
+              <p className="font-medium mb-1">Product info sources</p>
+              {Object.entries(product.dataSources).map(([field, source]) => (
+                <p key={field}>
+                  {fieldLabels[field as ProductInfoField] || field}: {source}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Merchant Price Comparison */}
-        <MerchantPriceComparison product={product} className="mb-6" />
+        <MerchantPriceComparison product={product} savings={scanResult.savings} offers={scanResult.offers} className="mb-6" />
 
         {/* Eco-Friendly Comparison */}
         <EcoFriendlyComparison product={product} className="mb-6" />
@@ -331,8 +352,8 @@ export default function ProductDetail() {
           </Card>
         )}
 
-        {/* Shopping Links with Affiliate Marketing */}
-        {scanResult?.product?.prices && scanResult.product.prices.length > 0 && (
+        {/* Shopping Links with Affiliate Marketing; only offers with a retailer page can be followed */}
+        {scanResult?.product?.prices?.some(priceData => priceData.url) && (
           <Card className="border-blue-200 bg-blue-50 dark:bg-blue-950 dark:border-blue-800">
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center gap-2">
@@ -344,13 +365,12 @@ export default function ProductDetail() {
               </p>
             </CardHeader>
             <CardContent className="space-y-2">
-              {scanResult.product.prices.map((priceData) => (
+              {scanResult.product.prices.filter(priceData => priceData.url).map((priceData) => (
                 <Button
                   key={priceData.id}
                   onClick={() => affiliateClickMutation.mutate({
                     productId: scanResult.product.id,
-                    retailerId: priceData.retailer.id,
-                    originalUrl: `https://${priceData.retailer.name.toLowerCase()}.com/search?q=${encodeURIComponent(scanResult.product.name)}`
+                    retailerId: priceData.retailer.id
                   })}
                   disabled={affiliateClickMutation.isPending}
                   variant="outline"
@@ -361,7 +381,7 @@ export default function ProductDetail() {
                     <span className="font-medium">{priceData.retailer.name}</span>
                   </div>
                   <div className="text-right">
-                    <div className="font-bold text-blue-600">{priceData.price}</div>
+                    <div className="font-bold text-blue-600">{formatPrice(priceData)}</div>
                     <div className="text-xs text-gray-500">{priceData.stock || 'Available'}</div>
                   </div>
                 </Button>
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import BarcodeScanner from "@/components/BarcodeScanner";
 import QuickShareButton from "@/components/QuickShareButton";
+import ShoppingPreferences from "@/components/ShoppingPreferences";
 import {
   Camera,
   QrCode,
@@ -16,10 +17,12 @@ import {
   Lock,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useShoppingPreferences } from "@/hooks/useShoppingPreferences";
 import type { ScanHistory } from "@shared/schema";
+import { parseGtin } from "@shared/gtin";
 
 export default function Scanner() {
   const [, setLocation] = useLocation();
@@ -28,26 +31,50 @@ export default function Scanner() {
   const [manualBarcode, setManualBarcode] = useState("");
   const { user } = useAuth();
   const { toast } = useToast();
+  const { lookupQuery } = useShoppingPreferences();
 
   const { data: recentScans = [] } = useQuery<ScanHistory[]>({
     queryKey: ["/api/history"],
   });
 
-  const handleScanSuccess = (barcode: string) => {
+  const handleScanSuccess = (code: string) => {
     setShowScanner(false);
-    setLocation(`/product/${barcode}`);
+
+    const parsed = parseGtin(code);
+    if (!parsed.valid) {
+      toast({
+        title: "Unreadable barcode",
+        description: parsed.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLocation(`/product/${parsed.gtin14}`);
   };
 
   const handleManualSubmit = async () => {
     if (!manualBarcode.trim()) return;
 
-    const barcode = manualBarcode.trim();
+    const parsed = parseGtin(manualBarcode);
+    if (!parsed.valid) {
+      toast({
+        title: "Invalid barcode",
+        description: parsed.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const barcode = parsed.gtin14;
     setShowManualEntry(false);
     setManualBarcode("");
 
-    // Add to scan history when manually searching
+    // Add to scan history when manually searching; the product page reuses the result,
+    // so the lookup counts once against the daily scan limit
     try {
-      await apiRequest("GET", `/api/products/${barcode}?addToHistory=true`);
+      const response = await apiRequest("GET", `/api/products/${barcode}?addToHistory=true&${lookupQuery}`);
+      queryClient.setQueryData(["/api/products", barcode, lookupQuery], await response.json());
     } catch (error) {
       // Continue to product page even if history add fails
       console.log("Failed to add to history:", error);
@@ -133,7 +160,7 @@ export default function Scanner() {
                   type="text"
                   value={manualBarcode}
                   onChange={(e) => setManualBarcode(e.target.value)}
-                  placeholder="Enter barcode (e.g., 123456789012)"
+                  placeholder="Enter barcode (e.g., 012345678905)"
                   className="mt-1 rounded-xl border-gray-200"
                 />
               </div>
@@ -205,6 +232,10 @@ export default function Scanner() {
         </div>
       )}
 
+      <div className="mt-8">
+        <ShoppingPreferences />
+      </div>
+
       {/* Buy Me a Coffee Donation */}
       <div className="mt-8 pt-6 border-t border-gray-100">
         <div className="text-center">
@@ -9,7 +9,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Plus, Edit3, Trash2, Check, X } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ShoppingListItem, ProductWithPrices, InsertProduct } from "@shared/schema";
+import { lowestPrice, priceMoney } from "@/lib/prices";
+import {
+  money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  formatMoney,
+  toDecimalString,
+  type Money
+} from "@shared/money";
+import type { ShoppingListItem, ShoppingListItemUpdate, ProductWithPrices, InsertProduct } from "@shared/schema";
 
 type ShoppingListItemWithProduct = ShoppingListItem & { product: ProductWithPrices };
 
@@ -32,7 +42,8 @@ export default function ShoppingList() {
   });
 
   const updateItemMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: number; updates: Partial<ShoppingListItem> }) => {
+    // unitPrice is sent as typed text and parsed into minor units by the server
+    mutationFn: async ({ id, updates }: { id: number; updates: ShoppingListItemUpdate }) => {
       return apiRequest("PATCH", `/api/shopping-list/${id}`, updates);
     },
     onSuccess: () => {
@@ -128,75 +139,46 @@ export default function ShoppingList() {
     });
   };
 
-  const getEstimatedPrice = (item: ShoppingListItemWithProduct) => {
+  const getUnitPrice = (item: ShoppingListItemWithProduct): Money | null => {
     // Use user-defined unit price if available
-    if (item.unitPrice) {
-      return item.unitPrice;
+    if (item.unitPriceMinor !== null) {
+      return money(item.unitPriceMinor, item.currency || "USD");
     }
-    
+
     // Fall back to best available price
-    if (item.product.prices.length === 0) return "N/A";
-    const bestPrice = item.product.prices.reduce((min, current) => {
-      const currentPrice = parseFloat(current.price.replace('$', ''));
-      const minPrice = parseFloat(min.price.replace('$', ''));
-      return currentPrice < minPrice ? current : min;
-    });
-    return bestPrice.price;
+    const bestPrice = lowestPrice(item.product.prices);
+    return bestPrice ? priceMoney(bestPrice) : null;
   };
 
-  const calculateTotalEstimate = () => {
-    if (!shoppingList) return 0;
-    
-    return shoppingList.reduce((total: number, item: ShoppingListItemWithProduct) => {
-      let priceValue = 0;
-      
-      // Use user-defined unit price if available
-      if (item.unitPrice) {
-        priceValue = parseFloat(item.unitPrice.replace('$', ''));
-      } else if (item.product.prices.length > 0) {
-        // Fall back to best available price
-        const bestPrice = item.product.prices.reduce((min, current) => {
-          const currentPrice = parseFloat(current.price.replace('$', ''));
-          const minPrice = parseFloat(min.price.replace('$', ''));
-          return currentPrice < minPrice ? current : min;
-        });
-        priceValue = parseFloat(bestPrice.price.replace('$', ''));
-      }
-      
-      const quantity = item.quantity || 1;
-      return total + (priceValue * quantity);
-    }, 0);
+  const getEstimatedPrice = (item: ShoppingListItemWithProduct) => {
+    const unitPrice = getUnitPrice(item);
+    return unitPrice ? formatMoney(unitPrice) : "N/A";
   };
 
-  const totalEstimate = calculateTotalEstimate();
-  const completedTotal = shoppingList?.filter(item => item.completed).reduce((total: number, item: ShoppingListItemWithProduct) => {
-    let priceValue = 0;
-    
-    // Use user-defined unit price if available
-    if (item.unitPrice) {
-      priceValue = parseFloat(item.unitPrice.replace('$', ''));
-    } else if (item.product.prices.length > 0) {
-      // Fall back to best available price
-      const bestPrice = item.product.prices.reduce((min, current) => {
-        const currentPrice = parseFloat(current.price.replace('$', ''));
-        const minPrice = parseFloat(min.price.replace('$', ''));
-        return currentPrice < minPrice ? current : min;
-      });
-      priceValue = parseFloat(bestPrice.price.replace('$', ''));
-    }
-    
-    const quantity = item.quantity || 1;
-    return total + (priceValue * quantity);
-  }, 0) || 0;
+  // Totals are in the currency of the first priced item; items priced in other currencies are left out
+  const listCurrency = shoppingList.map(getUnitPrice).find(price => price !== null)?.currency ?? "USD";
+
+  const calculateTotal = (items: ShoppingListItemWithProduct[]) => sumMoney(
+    items
+      .map(item => ({ unitPrice: getUnitPrice(item), quantity: item.quantity || 1 }))
+      .filter(({ unitPrice }) => unitPrice?.currency === listCurrency)
+      .map(({ unitPrice, quantity }) => multiplyMoney(unitPrice!, quantity)),
+    listCurrency
+  );
+
+  const totalEstimate = calculateTotal(shoppingList);
+  const completedTotal = calculateTotal(shoppingList.filter(item => item.completed));
+  const remainingTotal = subtractMoney(totalEstimate, completedTotal);
 
-  const remainingTotal = totalEstimate - completedTotal;
+  const unitPriceInput = (item: ShoppingListItemWithProduct) =>
+    item.unitPriceMinor !== null ? toDecimalString(money(item.unitPriceMinor, item.currency || "USD")) : "";
 
   const startEditing = (item: ShoppingListItemWithProduct) => {
     setEditingItem(item.id);
     setEditName(item.product.name);
     setEditBrand(item.product.brand || "");
     setEditQuantity(item.quantity || 1);
-    setEditPrice(item.unitPrice || "");
+    setEditPrice(unitPriceInput(item));
   };
 
   const saveEdit = (item: ShoppingListItemWithProduct) => {
@@ -208,7 +190,7 @@ export default function ShoppingList() {
       },
     });
     
-    if (editQuantity !== item.quantity || editPrice !== item.unitPrice) {
+    if (editQuantity !== item.quantity || editPrice !== unitPriceInput(item)) {
       updateItemMutation.mutate({
         id: item.id,
         updates: { 
@@ -346,12 +328,12 @@ export default function ShoppingList() {
               </div>
               <div className="text-right">
                 <div className="text-2xl font-bold text-blue-600">
-                  ${totalEstimate.toFixed(2)}
+                  {formatMoney(totalEstimate)}
                 </div>
-                {completedTotal > 0 && (
+                {completedTotal.amountMinor > 0 && (
                   <div className="text-sm text-gray-500">
-                    <div>Completed: ${completedTotal.toFixed(2)}</div>
-                    <div>Remaining: ${remainingTotal.toFixed(2)}</div>
+                    <div>Completed: {formatMoney(completedTotal)}</div>
+                    <div>Remaining: {formatMoney(remainingTotal)}</div>
                   </div>
                 )}
               </div>
@@ -0,0 +1,157 @@
+-- Converts text money columns to integer minor units plus a currency code.
+--
+-- Run once against an existing database BEFORE `npm run db:push`, e.g.
+--   psql "$DATABASE_URL" -f scripts/moneyMinorUnits.sql
+-- Fresh databases don't need it; `db:push` creates the new columns directly.
+--
+-- Every conversion runs only while its old text column is still there, so the script
+-- works on databases from any earlier version (columns such as prices.shipping and the
+-- price_observations table only exist on some) and running it again changes nothing.
+--
+-- Existing rows were written as USD display strings ("$3.99", "1,299.00"); rows
+-- with a euro or pound sign are tagged EUR/GBP. Prices that hold no amount at
+-- all (e.g. "N/A") cannot be kept in a NOT NULL integer column and are deleted.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION pg_temp.money_text_to_minor(value text) RETURNS integer AS $$
+DECLARE
+  cleaned text := regexp_replace(coalesce(value, ''), '[^0-9.,]', '', 'g');
+BEGIN
+  IF cleaned !~ '[0-9]' THEN
+    RETURN NULL;
+  END IF;
+  -- "12,99" and "1.299,00" use a decimal comma; otherwise commas group thousands
+  IF cleaned ~ ',[0-9]{1,2}$' THEN
+    cleaned := replace(replace(cleaned, '.', ''), ',', '.');
+  ELSE
+    cleaned := replace(cleaned, ',', '');
+  END IF;
+  RETURN round(cleaned::numeric * 100)::integer;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.money_text_currency(value text) RETURNS varchar AS $$
+  SELECT CASE
+    WHEN value LIKE '%€%' OR value ILIKE '%EUR%' THEN 'EUR'
+    WHEN value LIKE '%£%' OR value ILIKE '%GBP%' THEN 'GBP'
+    ELSE 'USD'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.has_column(table_name text, column_name text) RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = current_schema() AND c.table_name = $1 AND c.column_name = $2
+  );
+$$ LANGUAGE sql STABLE;
+
+DO $$
+BEGIN
+  -- prices
+  IF pg_temp.has_column('prices', 'price') THEN
+    ALTER TABLE prices
+      ADD COLUMN IF NOT EXISTS price_minor integer,
+      ADD COLUMN IF NOT EXISTS currency varchar(3) NOT NULL DEFAULT 'USD',
+      ADD COLUMN IF NOT EXISTS shipping_minor integer;
+    UPDATE prices SET
+      price_minor = pg_temp.money_text_to_minor(price),
+      currency = pg_temp.money_text_currency(price);
+    DELETE FROM prices WHERE price_minor IS NULL;
+    ALTER TABLE prices
+      ALTER COLUMN price_minor SET NOT NULL,
+      DROP COLUMN price;
+  END IF;
+
+  IF pg_temp.has_column('prices', 'shipping') THEN
+    ALTER TABLE prices ADD COLUMN IF NOT EXISTS shipping_minor integer;
+    UPDATE prices SET shipping_minor = CASE
+      WHEN shipping ILIKE '%free%' THEN 0
+      ELSE pg_temp.money_text_to_minor(shipping)
+    END;
+    ALTER TABLE prices DROP COLUMN shipping;
+  END IF;
+
+  -- price_observations
+  IF pg_temp.has_column('price_observations', 'amount') THEN
+    ALTER TABLE price_observations ADD COLUMN IF NOT EXISTS amount_minor integer;
+    UPDATE price_observations SET amount_minor = round(amount * 100)::integer;
+    ALTER TABLE price_observations
+      ALTER COLUMN amount_minor SET NOT NULL,
+      DROP COLUMN amount;
+  END IF;
+
+  -- shopping_list_items
+  IF pg_temp.has_column('shopping_list_items', 'unit_price') THEN
+    ALTER TABLE shopping_list_items
+      ADD COLUMN IF NOT EXISTS unit_price_minor integer,
+      ADD COLUMN IF NOT EXISTS currency varchar(3) DEFAULT 'USD';
+    UPDATE shopping_list_items SET
+      unit_price_minor = pg_temp.money_text_to_minor(unit_price),
+      currency = pg_temp.money_text_currency(unit_price)
+    WHERE unit_price IS NOT NULL;
+    ALTER TABLE shopping_list_items DROP COLUMN unit_price;
+  END IF;
+
+  -- price_alerts
+  IF pg_temp.has_column('price_alerts', 'target_price') THEN
+    ALTER TABLE price_alerts
+      ADD COLUMN IF NOT EXISTS target_price_minor integer,
+      ADD COLUMN IF NOT EXISTS currency varchar(3) NOT NULL DEFAULT 'USD';
+    UPDATE price_alerts SET
+      target_price_minor = pg_temp.money_text_to_minor(target_price),
+      currency = pg_temp.money_text_currency(target_price);
+    DELETE FROM price_alerts WHERE target_price_minor IS NULL;
+    ALTER TABLE price_alerts
+      ALTER COLUMN target_price_minor SET NOT NULL,
+      DROP COLUMN target_price;
+  END IF;
+
+  -- affiliate_clicks
+  IF pg_temp.has_column('affiliate_clicks', 'estimated_commission') THEN
+    ALTER TABLE affiliate_clicks
+      ADD COLUMN IF NOT EXISTS estimated_commission_minor integer,
+      ADD COLUMN IF NOT EXISTS actual_commission_minor integer,
+      ADD COLUMN IF NOT EXISTS currency varchar(3) DEFAULT 'USD';
+    UPDATE affiliate_clicks SET
+      estimated_commission_minor = pg_temp.money_text_to_minor(estimated_commission),
+      actual_commission_minor = pg_temp.money_text_to_minor(actual_commission);
+    ALTER TABLE affiliate_clicks
+      DROP COLUMN estimated_commission,
+      DROP COLUMN actual_commission;
+  END IF;
+
+  -- subscription_payments
+  IF pg_temp.has_column('subscription_payments', 'amount') THEN
+    ALTER TABLE subscription_payments ADD COLUMN IF NOT EXISTS amount_minor integer;
+    UPDATE subscription_payments SET amount_minor = coalesce(pg_temp.money_text_to_minor(amount), 0);
+    ALTER TABLE subscription_payments
+      ALTER COLUMN amount_minor SET NOT NULL,
+      DROP COLUMN amount;
+  END IF;
+
+  -- revenue_metrics
+  IF pg_temp.has_column('revenue_metrics', 'total_revenue') THEN
+    ALTER TABLE revenue_metrics
+      ADD COLUMN IF NOT EXISTS affiliate_revenue_minor integer DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS subscription_revenue_minor integer DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS ad_revenue_minor integer DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS total_revenue_minor integer DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS currency varchar(3) DEFAULT 'USD';
+    UPDATE revenue_metrics SET
+      affiliate_revenue_minor = coalesce(pg_temp.money_text_to_minor(affiliate_revenue), 0),
+      subscription_revenue_minor = coalesce(pg_temp.money_text_to_minor(subscription_revenue), 0),
+      ad_revenue_minor = coalesce(pg_temp.money_text_to_minor(ad_revenue), 0),
+      total_revenue_minor = coalesce(pg_temp.money_text_to_minor(total_revenue), 0);
+    ALTER TABLE revenue_metrics
+      DROP COLUMN affiliate_revenue,
+      DROP COLUMN subscription_revenue,
+      DROP COLUMN ad_revenue,
+      DROP COLUMN total_revenue;
+  END IF;
+END;
+$$;
+
+COMMIT;
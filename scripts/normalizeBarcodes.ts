@@ -0,0 +1,92 @@
+import { eq, inArray, and } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import {
+  products,
+  prices,
+  priceObservations,
+  scanHistory,
+  favorites,
+  shoppingListItems,
+  priceAlerts,
+  priceAlertEvents,
+  affiliateClicks
+} from "@shared/schema";
+import { parseGtin } from "@shared/gtin";
+
+// One-off backfill for databases created before barcodes were stored as GTIN-14:
+//   npm run db:normalize-barcodes
+// Rewrites products.barcode and scan_history.barcode to GTIN-14. A product that was
+// scanned again after the switch has a second, GTIN-14 row; the old row's observations,
+// favorites, alerts and clicks are moved onto it (keeping the new row's prices where both
+// have one for a retailer) and the old row is deleted. Safe to run more than once.
+
+// Tables whose product_id follows a merged product
+const PRODUCT_CHILD_TABLES = [priceObservations, favorites, shoppingListItems, priceAlerts, priceAlertEvents, affiliateClicks];
+
+async function normalizeProducts(): Promise<void> {
+  const rows = await db.select({ id: products.id, barcode: products.barcode }).from(products);
+  let renamed = 0;
+  let merged = 0;
+
+  for (const row of rows) {
+    const parsed = parseGtin(row.barcode);
+    if (!parsed.valid) {
+      console.warn(`Product ${row.id}: barcode ${row.barcode} is not a valid GTIN (${parsed.error}); left as is`);
+      continue;
+    }
+    if (parsed.gtin14 === row.barcode) continue;
+
+    await db.transaction(async (tx) => {
+      const [canonical] = await tx.select({ id: products.id }).from(products).where(eq(products.barcode, parsed.gtin14));
+      if (!canonical) {
+        await tx.update(products).set({ barcode: parsed.gtin14 }).where(eq(products.id, row.id));
+        renamed++;
+        return;
+      }
+
+      // The newer row's prices are current; only retailers it lacks come from the old row
+      const canonicalRetailers = (await tx.select({ retailerId: prices.retailerId }).from(prices).where(eq(prices.productId, canonical.id)))
+        .map(price => price.retailerId);
+      if (canonicalRetailers.length > 0) {
+        await tx.delete(prices).where(and(eq(prices.productId, row.id), inArray(prices.retailerId, canonicalRetailers)));
+      }
+      await tx.update(prices).set({ productId: canonical.id }).where(eq(prices.productId, row.id));
+
+      for (const table of PRODUCT_CHILD_TABLES) {
+        await tx.update(table).set({ productId: canonical.id }).where(eq(table.productId, row.id));
+      }
+      await tx.delete(products).where(eq(products.id, row.id));
+      merged++;
+    });
+  }
+
+  console.log(`Products: ${renamed} barcodes normalized, ${merged} duplicates merged`);
+}
+
+async function normalizeScanHistory(): Promise<void> {
+  const barcodes = await db.selectDistinct({ barcode: scanHistory.barcode }).from(scanHistory);
+  let updated = 0;
+
+  for (const { barcode } of barcodes) {
+    const parsed = parseGtin(barcode);
+    if (!parsed.valid || parsed.gtin14 === barcode) continue;
+    await db.update(scanHistory).set({ barcode: parsed.gtin14 }).where(eq(scanHistory.barcode, barcode));
+    updated++;
+  }
+
+  console.log(`Scan history: ${updated} barcodes normalized`);
+}
+
+async function main(): Promise<void> {
+  try {
+    await normalizeProducts();
+    await normalizeScanHistory();
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error("Barcode backfill failed:", error);
+  process.exit(1);
+});
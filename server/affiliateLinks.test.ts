@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  amazonAssociatesLinkBuilder,
+  buildAffiliateLink,
+  cjLinkBuilder,
+  impactLinkBuilder,
+  templateLinkBuilder,
+  type AffiliateLinkRequest
+} from "./affiliateLinks";
+import type { Retailer } from "@shared/schema";
+
+function retailer(overrides: Partial<Retailer>): Retailer {
+  return {
+    id: 1,
+    name: "Example",
+    logo: null,
+    affiliateProgram: true,
+    affiliateCommissionRate: "4%",
+    affiliateNetwork: null,
+    affiliateBaseUrl: null,
+    affiliateTrackingId: null,
+    ...overrides
+  };
+}
+
+function request(destinationUrl: string): AffiliateLinkRequest {
+  return { destinationUrl, clickId: "42.AbCdEfGhIjKlMnOp", productId: 7 };
+}
+
+test("amazon: adds the associate tag and click id to the Amazon page", () => {
+  const amazon = retailer({ affiliateNetwork: "amazon", affiliateTrackingId: "shopsmartly-20" });
+
+  assert.equal(
+    amazonAssociatesLinkBuilder.build(amazon, request("https://www.amazon.com/dp/B000123456?th=1")),
+    "https://www.amazon.com/dp/B000123456?th=1&tag=shopsmartly-20&ascsubtag=42.AbCdEfGhIjKlMnOp"
+  );
+  assert.equal(
+    amazonAssociatesLinkBuilder.build(amazon, request("https://www.amazon.co.uk/dp/B000123456")),
+    "https://www.amazon.co.uk/dp/B000123456?tag=shopsmartly-20&ascsubtag=42.AbCdEfGhIjKlMnOp"
+  );
+});
+
+test("amazon: replaces an existing tag instead of adding a second one", () => {
+  const amazon = retailer({ affiliateNetwork: "amazon", affiliateTrackingId: "shopsmartly-20" });
+
+  assert.equal(
+    amazonAssociatesLinkBuilder.build(amazon, request("https://www.amazon.de/dp/B000123456?tag=someone-21")),
+    "https://www.amazon.de/dp/B000123456?tag=shopsmartly-20&ascsubtag=42.AbCdEfGhIjKlMnOp"
+  );
+});
+
+test("amazon: refuses pages outside Amazon and retailers without a tag", () => {
+  const amazon = retailer({ affiliateNetwork: "amazon", affiliateTrackingId: "shopsmartly-20" });
+
+  assert.equal(amazonAssociatesLinkBuilder.build(amazon, request("https://www.amazon.com.evil.example/dp/B0")), null);
+  assert.equal(amazonAssociatesLinkBuilder.build(amazon, request("https://notamazon.com/dp/B0")), null);
+  assert.equal(amazonAssociatesLinkBuilder.build(retailer({ affiliateNetwork: "amazon" }), request("https://www.amazon.com/dp/B0")), null);
+});
+
+test("impact: wraps the page in the campaign's tracking link", () => {
+  const target = retailer({ affiliateNetwork: "impact", affiliateBaseUrl: "https://goto.target.com/c/123456/81938/2092" });
+
+  assert.equal(
+    impactLinkBuilder.build(target, request("https://www.target.com/p/widget/-/A-12345678")),
+    "https://goto.target.com/c/123456/81938/2092?u=https%3A%2F%2Fwww.target.com%2Fp%2Fwidget%2F-%2FA-12345678&subId1=42.AbCdEfGhIjKlMnOp"
+  );
+});
+
+test("cj: wraps the page in the advertiser link", () => {
+  const bestBuy = retailer({ affiliateNetwork: "cj", affiliateBaseUrl: "https://www.anrdoezrs.net/click-1234567-7654321" });
+
+  assert.equal(
+    cjLinkBuilder.build(bestBuy, request("https://www.bestbuy.com/site/widget/6500000.p?skuId=6500000")),
+    "https://www.anrdoezrs.net/click-1234567-7654321?url=https%3A%2F%2Fwww.bestbuy.com%2Fsite%2Fwidget%2F6500000.p%3FskuId%3D6500000&sid=42.AbCdEfGhIjKlMnOp"
+  );
+});
+
+test("impact and cj: need a tracking link", () => {
+  const unconfigured = retailer({ affiliateNetwork: "impact" });
+
+  assert.equal(impactLinkBuilder.build(unconfigured, request("https://www.target.com/p/widget")), null);
+  assert.equal(cjLinkBuilder.build(retailer({ affiliateBaseUrl: "not a url" }), request("https://www.bestbuy.com/")), null);
+});
+
+test("template: fills in URL-encoded placeholders", () => {
+  const shop = retailer({
+    affiliateNetwork: "template",
+    affiliateBaseUrl: "https://track.example.com/r?dest={url}&sub={click_id}&p={product_id}&aff={tracking_id}",
+    affiliateTrackingId: "aff 9"
+  });
+
+  assert.equal(
+    templateLinkBuilder.build(shop, request("https://shop.example.com/item?id=5&color=red")),
+    "https://track.example.com/r?dest=https%3A%2F%2Fshop.example.com%2Fitem%3Fid%3D5%26color%3Dred&sub=42.AbCdEfGhIjKlMnOp&p=7&aff=aff%209"
+  );
+});
+
+test("template: leaves unknown placeholders alone, including Object.prototype names", () => {
+  const shop = retailer({
+    affiliateNetwork: "template",
+    affiliateBaseUrl: "https://track.example.com/r?dest={url}&x={constructor}&y={toString}&z={other}"
+  });
+
+  assert.equal(
+    templateLinkBuilder.build(shop, request("https://shop.example.com/item")),
+    "https://track.example.com/r?dest=https%3A%2F%2Fshop.example.com%2Fitem&x={constructor}&y={toString}&z={other}"
+  );
+});
+
+test("buildAffiliateLink: picks the builder for the retailer's network", () => {
+  const target = retailer({ affiliateNetwork: "impact", affiliateBaseUrl: "https://goto.target.com/c/1/2/3" });
+
+  assert.equal(
+    buildAffiliateLink(target, request("https://www.target.com/p/widget")),
+    "https://goto.target.com/c/1/2/3?u=https%3A%2F%2Fwww.target.com%2Fp%2Fwidget&subId1=42.AbCdEfGhIjKlMnOp"
+  );
+  assert.equal(buildAffiliateLink(retailer({ affiliateNetwork: "unknown" }), request("https://www.target.com/")), null);
+  assert.equal(buildAffiliateLink(retailer({}), request("https://www.target.com/")), null);
+});
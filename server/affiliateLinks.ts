@@ -0,0 +1,103 @@
+import type { Retailer } from "@shared/schema";
+
+// Affiliate links in the formats real programs expect. Each retailer names its network in
+// affiliate_network; the matching builder turns the retailer page a shopper is headed to
+// into a tracked link that carries our click id, so sales can be matched to clicks.
+
+export interface AffiliateLinkRequest {
+  destinationUrl: string; // Retailer page the shopper is sent to
+  clickId: string; // Signed click id, reported back by the network with each sale
+  productId: number;
+}
+
+export interface AffiliateLinkBuilder {
+  network: string; // Value of retailers.affiliate_network
+  // The tracked link, or null when the retailer's settings don't fit this network
+  build(retailer: Retailer, request: AffiliateLinkRequest): string | null;
+}
+
+function parseUrl(value: string | null | undefined): URL | null {
+  if (!value) return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+// amazon.com, amazon.de, amazon.co.uk, amazon.com.au, ...
+const AMAZON_HOST = /(^|\.)amazon\.((com|co)(\.[a-z]{2})?|[a-z]{2})$/;
+
+// Amazon Associates: the associate tag goes on the Amazon page itself, and the click id
+// in ascsubtag shows up in the Associates reports
+export const amazonAssociatesLinkBuilder: AffiliateLinkBuilder = {
+  network: "amazon",
+  build(retailer, request) {
+    const url = parseUrl(request.destinationUrl);
+    if (!url || !retailer.affiliateTrackingId || !AMAZON_HOST.test(url.hostname)) return null;
+
+    url.searchParams.set("tag", retailer.affiliateTrackingId);
+    url.searchParams.set("ascsubtag", request.clickId);
+    return url.toString();
+  }
+};
+
+// Deep links that wrap the destination in the network's tracking link
+function deepLinkBuilder(network: string, urlParam: string, subIdParam: string): AffiliateLinkBuilder {
+  return {
+    network,
+    build(retailer, request) {
+      const trackingLink = parseUrl(retailer.affiliateBaseUrl);
+      if (!trackingLink || !parseUrl(request.destinationUrl)) return null;
+
+      trackingLink.searchParams.set(urlParam, request.destinationUrl);
+      trackingLink.searchParams.set(subIdParam, request.clickId);
+      return trackingLink.toString();
+    }
+  };
+}
+
+// Impact: the campaign's tracking link, e.g. https://goto.target.com/c/<partner>/<ad>/<campaign>
+export const impactLinkBuilder = deepLinkBuilder("impact", "u", "subId1");
+
+// CJ: the advertiser link, e.g. https://www.anrdoezrs.net/click-<PID>-<AID>
+export const cjLinkBuilder = deepLinkBuilder("cj", "url", "sid");
+
+// Any other program: affiliate_base_url is a template whose placeholders ({url},
+// {click_id}, {product_id}, {tracking_id}) are replaced with URL-encoded values, e.g.
+// https://track.example.com/r?dest={url}&sub={click_id}
+export const templateLinkBuilder: AffiliateLinkBuilder = {
+  network: "template",
+  build(retailer, request) {
+    const template = retailer.affiliateBaseUrl;
+    if (!template) return null;
+
+    const values: Record<string, string> = {
+      url: request.destinationUrl,
+      click_id: request.clickId,
+      product_id: request.productId.toString(),
+      tracking_id: retailer.affiliateTrackingId ?? ""
+    };
+    const link = template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      Object.hasOwn(values, name) ? encodeURIComponent(values[name]) : placeholder
+    );
+    return parseUrl(link) ? link : null;
+  }
+};
+
+const linkBuilders = new Map<string, AffiliateLinkBuilder>();
+
+export function registerAffiliateLinkBuilder(builder: AffiliateLinkBuilder): void {
+  linkBuilders.set(builder.network, builder);
+}
+
+for (const builder of [amazonAssociatesLinkBuilder, impactLinkBuilder, cjLinkBuilder, templateLinkBuilder]) {
+  registerAffiliateLinkBuilder(builder);
+}
+
+// The retailer's tracked link, or null when it has no network or its settings are incomplete
+export function buildAffiliateLink(retailer: Retailer, request: AffiliateLinkRequest): string | null {
+  const builder = retailer.affiliateNetwork ? linkBuilders.get(retailer.affiliateNetwork) : undefined;
+  if (!builder) return null;
+  return builder.build(retailer, request);
+}
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Click ids handed out in /go/:clickId links and passed to affiliate networks as the
+// sub-id are "<affiliate_clicks.id>.<signature>", so they can't be guessed or enumerated.
+// Networks report sales back to /api/affiliate/postback with the click id, the order
+// value and an HMAC signature over the parameters made with AFFILIATE_POSTBACK_SECRET.
+
+export class PostbackVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PostbackVerificationError";
+  }
+}
+
+function clickIdSecret(): string {
+  const secret = process.env.AFFILIATE_CLICK_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("AFFILIATE_CLICK_SECRET or SESSION_SECRET must be set to sign affiliate click ids");
+  }
+  return secret;
+}
+
+function clickSignature(id: number): string {
+  return createHmac("sha256", clickIdSecret()).update(`click:${id}`).digest("base64url").slice(0, 16);
+}
+
+function sameSignature(a: string, b: string): boolean {
+  const actual = Buffer.from(a);
+  const expected = Buffer.from(b);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function signClickId(id: number): string {
+  return `${id}.${clickSignature(id)}`;
+}
+
+// The affiliate_clicks id of a signed click id, or null when the signature doesn't match
+export function parseClickId(clickId: string): number | null {
+  const match = /^(\d+)\.([A-Za-z0-9_-]{16})$/.exec(clickId);
+  if (!match) return null;
+
+  const id = parseInt(match[1], 10);
+  return sameSignature(match[2], clickSignature(id)) ? id : null;
+}
+
+export function postbacksEnabled(): boolean {
+  return Boolean(process.env.AFFILIATE_POSTBACK_SECRET);
+}
+
+// Hex HMAC-SHA256 of every parameter except `signature`, sorted by name and joined as
+// name=value pairs with "&" (values not URL-encoded), e.g.
+// "click_id=12.abc&currency=USD&order_value=49.99"
+export function signPostback(params: Record<string, string>): string {
+  const payload = Object.keys(params)
+    .filter(name => name !== "signature")
+    .sort()
+    .map(name => `${name}=${params[name]}`)
+    .join("&");
+  return createHmac("sha256", process.env.AFFILIATE_POSTBACK_SECRET ?? "").update(payload).digest("hex");
+}
+
+// Checks a postback's signature and returns its parameters as strings
+export function verifyPostback(params: Record<string, unknown>): Record<string, string> {
+  if (!postbacksEnabled()) {
+    throw new PostbackVerificationError("Affiliate postbacks are not configured");
+  }
+
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(params)) {
+    if (typeof value !== "string") {
+      throw new PostbackVerificationError(`Postback parameter ${name} must be a single value`);
+    }
+    values[name] = value;
+  }
+
+  if (!values.signature || !sameSignature(values.signature.toLowerCase(), signPostback(values))) {
+    throw new PostbackVerificationError("Invalid postback signature");
+  }
+  return values;
+}
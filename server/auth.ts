@@ -0,0 +1,287 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ZodError } from "zod";
+import { storage, type DataOwner } from "./storage";
+import { sendEmail, PermanentDeliveryError, APP_BASE_URL } from "./notifications";
+import { oidcService, type OidcLoginState } from "./oidc";
+import {
+  registerSchema,
+  loginSchema,
+  magicLinkRequestSchema,
+  type PublicUser,
+  type User as SelectUser
+} from "@shared/schema";
+
+// Email/password, magic-link and OpenID Connect login on top of express-session, with
+// sessions kept in the Postgres `sessions` table.
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    deviceId?: string; // Identity of an anonymous visitor's browser
+    oidc?: OidcLoginState; // Pending OpenID Connect login
+    scanQuota?: { count: number; lastResetAt: string; barcodes?: string[] }; // Anonymous visitors' daily scans
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return timingSafeEqual(expected, actual);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function publicUser(user: SelectUser): PublicUser {
+  const { passwordHash, ...rest } = user;
+  return rest;
+}
+
+export function getSession(): RequestHandler {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+
+  const PgStore = connectPg(session);
+  return session({
+    store: new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "sessions",
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+    }),
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true, // Anonymous device identities last as long as the browser keeps using them
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+export const isAuthenticated: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Unauthorized" });
+};
+
+// Owner of the request's scan history, favorites and shopping list. Anonymous visitors
+// get a device id on first use, stored in their session.
+export function dataOwner(req: Request): DataOwner {
+  if (req.isAuthenticated()) return { userId: req.user.id };
+  req.session.deviceId ??= randomUUID();
+  return { deviceId: req.session.deviceId };
+}
+
+// Signing in regenerates the session, so anything the visitor did anonymously on this
+// device is moved into the account first
+async function logIn(req: Request, user: SelectUser): Promise<void> {
+  const { deviceId } = req.session;
+  if (deviceId) {
+    await storage.mergeDeviceData(deviceId, user.id);
+  }
+  await new Promise<void>((resolve, reject) => req.login(user, error => (error ? reject(error) : resolve())));
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim().toLowerCase());
+        if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        done(null, user);
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted user ends the session instead of failing the request
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res) => {
+    try {
+      const { email, password, firstName, lastName } = registerSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.upsertUser({
+        id: randomUUID(),
+        email,
+        firstName,
+        lastName,
+        passwordHash: await hashPassword(password)
+      });
+      await logIn(req, user);
+      res.status(201).json(publicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid registration", errors: error.errors });
+      }
+      console.error("Register error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    if (!loginSchema.safeParse(req.body).success) {
+      return res.status(400).json({ message: "Email and password are required" });
+    }
+
+    passport.authenticate("local", async (error: unknown, user: SelectUser | false) => {
+      try {
+        if (error) throw error;
+        if (!user) {
+          return res.status(401).json({ message: "Invalid email or password" });
+        }
+        await logIn(req, user);
+        res.json(publicUser(user));
+      } catch (loginError) {
+        console.error("Login error:", loginError);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    })(req, res, next);
+  });
+
+  // Emails a one-time login link. The response doesn't reveal whether the address has an
+  // account; following the link creates one if needed.
+  app.post("/api/login/magic-link", async (req, res) => {
+    try {
+      const parsed = magicLinkRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "A valid email address is required" });
+      }
+
+      const token = randomBytes(32).toString("base64url");
+      await storage.createLoginToken({
+        tokenHash: hashToken(token),
+        email: parsed.data.email,
+        expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS)
+      });
+      await sendEmail(
+        parsed.data.email,
+        "Your ShopSmartly login link",
+        `Use this link to sign in. It works once and expires in ${MAGIC_LINK_TTL_MS / 60000} minutes.\n\n` +
+          `${APP_BASE_URL}/api/login/magic-link/${token}`
+      );
+
+      res.json({ message: "Check your email for a login link" });
+    } catch (error) {
+      if (error instanceof PermanentDeliveryError) {
+        return res.status(503).json({ message: "Email login is not available" });
+      }
+      console.error("Magic link error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/login/magic-link/:token", async (req, res) => {
+    try {
+      const email = await storage.consumeLoginToken(hashToken(req.params.token));
+      if (!email) {
+        return res.redirect("/?login=expired");
+      }
+
+      const user = (await storage.getUserByEmail(email)) ?? (await storage.upsertUser({ id: randomUUID(), email }));
+      await logIn(req, user);
+      res.redirect("/");
+    } catch (error) {
+      console.error("Magic link login error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/auth/providers", (req, res) => {
+    res.json(oidcService.listProviders());
+  });
+
+  app.get("/api/login/oidc/:provider", async (req, res) => {
+    try {
+      if (!oidcService.hasProvider(req.params.provider)) {
+        return res.status(404).json({ message: "Unknown sign-in provider" });
+      }
+
+      const { url, loginState } = await oidcService.beginLogin(req.params.provider);
+      req.session.oidc = loginState;
+      res.redirect(url.href);
+    } catch (error) {
+      console.error("OIDC login error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/login/oidc/:provider/callback", async (req, res) => {
+    const loginState = req.session.oidc;
+    delete req.session.oidc;
+    if (!loginState || loginState.provider !== req.params.provider) {
+      return res.redirect("/?login=failed");
+    }
+
+    try {
+      const user = await oidcService.completeLogin(loginState, new URL(req.originalUrl, APP_BASE_URL));
+      await logIn(req, user);
+      res.redirect("/");
+    } catch (error) {
+      // Denied consent, a replayed callback or a bad token all end up here
+      console.error("OIDC callback error:", error);
+      res.redirect("/?login=failed");
+    }
+  });
+
+  // GET is what the Home page's logout link hits; POST is for fetch callers
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => req.session.destroy(() => res.redirect("/")));
+  });
+
+  app.post("/api/logout", (req, res) => {
+    req.logout(() => req.session.destroy(() => res.json({ message: "Logged out" })));
+  });
+
+  app.get("/api/auth/user", isAuthenticated, (req, res) => {
+    res.json(publicUser(req.user!));
+  });
+}
@@ -1,7 +1,10 @@
 // Barcode/UPC Database APIs integration for authentic product data and pricing
 // This file provides multiple API integrations for comprehensive product information
 
-interface ProductInfo {
+import type { ProviderOutcome, ProviderStatus, ProductProvenance, ProductInfoField, LookupCacheEntry } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface ProductInfo {
   name: string;
   brand?: string;
   description?: string;
@@ -10,29 +13,32 @@ interface ProductInfo {
   upc: string;
 }
 
-interface PriceInfo {
+export interface PriceInfo {
   retailer: string;
   price: string;
   currency: string;
   availability: string;
   url?: string;
+  source?: string; // Provider that reported the price, set by fetchProductData
 }
 
-interface BarcodeApiResponse {
+export interface BarcodeApiResponse {
   product?: ProductInfo;
   prices?: PriceInfo[];
   success: boolean;
+  notFound?: boolean; // The source answered but has no data for the barcode
   error?: string;
 }
 
 // UPC Database API (upcitemdb.com) - Free tier available
-export async function fetchFromUPCItemDB(barcode: string): Promise<BarcodeApiResponse> {
+export async function fetchFromUPCItemDB(barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse> {
   try {
     const response = await fetch(`https://api.upcitemdb.com/prod/trial/lookup?upc=${barcode}`, {
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'Smart Shopping Assistant'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -83,14 +89,14 @@ export async function fetchFromUPCItemDB(barcode: string): Promise<BarcodeApiRes
       };
     }
 
-    return { success: false, error: "Product not found in UPC database" };
+    return { success: false, notFound: true, error: "Product not found in UPC database" };
   } catch (error) {
     return { success: false, error: `UPC API error: ${(error as Error).message}` };
   }
 }
 
 // Barcode Spider API (barcodespider.com) - Requires API key
-export async function fetchFromBarcodeSpider(barcode: string): Promise<BarcodeApiResponse> {
+export async function fetchFromBarcodeSpider(barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse> {
   const apiKey = process.env.BARCODE_SPIDER_API_KEY;
   
   if (!apiKey) {
@@ -101,7 +107,8 @@ export async function fetchFromBarcodeSpider(barcode: string): Promise<BarcodeAp
     const response = await fetch(`https://api.barcodespider.com/v1/lookup?token=${apiKey}&upc=${barcode}`, {
       headers: {
         'Accept': 'application/json'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -125,20 +132,21 @@ export async function fetchFromBarcodeSpider(barcode: string): Promise<BarcodeAp
       };
     }
 
-    return { success: false, error: "Product not found in Barcode Spider" };
+    return { success: false, notFound: true, error: "Product not found in Barcode Spider" };
   } catch (error) {
     return { success: false, error: `Barcode Spider API error: ${(error as Error).message}` };
   }
 }
 
 // Open Food Facts API (for food products) - Free
-export async function fetchFromOpenFoodFacts(barcode: string): Promise<BarcodeApiResponse> {
+export async function fetchFromOpenFoodFacts(barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse> {
   try {
     const response = await fetch(`https://world.openfoodfacts.org/api/v0/product/${barcode}.json`, {
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'Smart Shopping Assistant'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -162,14 +170,14 @@ export async function fetchFromOpenFoodFacts(barcode: string): Promise<BarcodeAp
       };
     }
 
-    return { success: false, error: "Product not found in Open Food Facts" };
+    return { success: false, notFound: true, error: "Product not found in Open Food Facts" };
   } catch (error) {
     return { success: false, error: `Open Food Facts API error: ${(error as Error).message}` };
   }
 }
 
 // Barcode Lookup API - Requires API key
-export async function fetchFromBarcodeLookup(barcode: string): Promise<BarcodeApiResponse> {
+export async function fetchFromBarcodeLookup(barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse> {
   try {
     const apiKey = process.env.BARCODE_LOOKUP_API_KEY;
     
@@ -184,7 +192,8 @@ export async function fetchFromBarcodeLookup(barcode: string): Promise<BarcodeAp
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'Smart Shopping Assistant'
-      }
+      },
+      signal
     });
     
     if (!response.ok) {
@@ -199,6 +208,7 @@ export async function fetchFromBarcodeLookup(barcode: string): Promise<BarcodeAp
     if (!data.products || data.products.length === 0) {
       return {
         success: false,
+        notFound: true,
         error: "Product not found in Barcode Lookup"
       };
     }
@@ -242,7 +252,7 @@ export async function fetchFromBarcodeLookup(barcode: string): Promise<BarcodeAp
 }
 
 // Walmart Open API - Requires API key
-export async function fetchWalmartPrices(upc: string): Promise<PriceInfo[]> {
+export async function fetchWalmartPrices(upc: string, signal?: AbortSignal): Promise<PriceInfo[]> {
   const apiKey = process.env.WALMART_API_KEY;
   
   if (!apiKey) {
@@ -254,7 +264,8 @@ export async function fetchWalmartPrices(upc: string): Promise<PriceInfo[]> {
     const response = await fetch(`https://api.walmartlabs.com/v1/items?apikey=${apiKey}&upc=${upc}`, {
       headers: {
         'Accept': 'application/json'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -275,20 +286,22 @@ export async function fetchWalmartPrices(upc: string): Promise<PriceInfo[]> {
 
     return [];
   } catch (error) {
+    // Rethrown so the provider reports an error, which isn't cached, rather than "not found"
     console.error(`Walmart API error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
 // Target API (RedSky API) - Public endpoints
-export async function fetchTargetPrices(upc: string): Promise<PriceInfo[]> {
+export async function fetchTargetPrices(upc: string, signal?: AbortSignal): Promise<PriceInfo[]> {
   try {
     // Using Target's public product search API
     const response = await fetch(`https://redsky.target.com/redsky_aggregations/v1/web/pdp_client_v1?key=ff457966e64d5e877fdbad070f276d18ecec4a01&tcin=${upc}&pricing_store_id=3991`, {
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'Mozilla/5.0 (compatible; Smart Shopping Assistant)'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -315,7 +328,7 @@ export async function fetchTargetPrices(upc: string): Promise<PriceInfo[]> {
     return [];
   } catch (error) {
     console.error(`Target API error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
@@ -336,81 +349,407 @@ export async function fetchAmazonPrices(upc: string): Promise<PriceInfo[]> {
   return [];
 }
 
+// Product lookup provider registry
+// Each data source declares what it needs and how often it may be called, so
+// adding or removing a source only means registering or disabling a provider.
+
+export interface ProviderRateLimit {
+  requests: number;
+  intervalMs: number;
+}
+
+export interface ProductLookupProvider {
+  id: string;
+  name: string; // Display name reported in `sources`
+  envKeys: string[]; // Environment variables that must be set for the provider to run
+  priority: number; // Lower runs first and wins field merges unless a field precedence says otherwise
+  provides: ("product" | "prices")[]; // Kinds of data the provider can return
+  rateLimit?: ProviderRateLimit;
+  timeoutMs?: number; // Per-provider deadline, defaults to PROVIDER_TIMEOUT_MS
+  enabled: boolean;
+  lookup(barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse>;
+}
+
+interface ProviderRun {
+  providerId: string;
+  outcome: ProviderOutcome;
+  result?: BarcodeApiResponse;
+}
+
+// Adapts retailer price fetchers to the provider contract
+function pricesOnlyLookup(fetchPrices: (upc: string, signal?: AbortSignal) => Promise<PriceInfo[]>) {
+  return async (barcode: string, signal?: AbortSignal): Promise<BarcodeApiResponse> => {
+    const prices = await fetchPrices(barcode, signal);
+    return prices.length > 0
+      ? { success: true, prices }
+      : { success: false, notFound: true, error: "No prices found" };
+  };
+}
+
+const lookupProviders = new Map<string, ProductLookupProvider>();
+const providerCallLog = new Map<string, number[]>();
+
+export function registerLookupProvider(provider: ProductLookupProvider): void {
+  lookupProviders.set(provider.id, provider);
+}
+
+export function unregisterLookupProvider(id: string): void {
+  lookupProviders.delete(id);
+  providerCallLog.delete(id);
+}
+
+export function setLookupProviderEnabled(id: string, enabled: boolean): void {
+  const provider = lookupProviders.get(id);
+  if (provider) {
+    provider.enabled = enabled;
+  }
+}
+
+export function getLookupProviders(): ProductLookupProvider[] {
+  return Array.from(lookupProviders.values()).sort((a, b) => a.priority - b.priority);
+}
+
+export function isProviderConfigured(provider: ProductLookupProvider): boolean {
+  return provider.envKeys.every(key => !!process.env[key]);
+}
+
+// Records a call and returns false when the provider is over its rate limit.
+// `reserve` is the fraction of the window's budget to leave untouched, so background
+// jobs can back off before interactive lookups start getting rate limited.
+function acquireRateLimit(provider: ProductLookupProvider, reserve = 0): boolean {
+  if (!provider.rateLimit) return true;
+
+  const now = Date.now();
+  const windowStart = now - provider.rateLimit.intervalMs;
+  const calls = (providerCallLog.get(provider.id) || []).filter(t => t > windowStart);
+  const allowed = Math.floor(provider.rateLimit.requests * (1 - reserve));
+
+  if (calls.length >= allowed) {
+    providerCallLog.set(provider.id, calls);
+    return false;
+  }
+
+  calls.push(now);
+  providerCallLog.set(provider.id, calls);
+  return true;
+}
+
+// Comma-separated provider ids, e.g. PRODUCT_LOOKUP_DISABLED=target,barcode-spider
+const disabledProviderIds = (process.env.PRODUCT_LOOKUP_DISABLED || "")
+  .split(",")
+  .map(id => id.trim())
+  .filter(Boolean);
+
+const defaultProviders: ProductLookupProvider[] = [
+  {
+    id: "upcitemdb",
+    name: "UPC Database",
+    envKeys: [],
+    priority: 10,
+    provides: ["product", "prices"],
+    rateLimit: { requests: 6, intervalMs: 60 * 1000 }, // Trial plan allows 100/day, 6/minute
+    enabled: true,
+    lookup: fetchFromUPCItemDB
+  },
+  {
+    id: "barcode-lookup",
+    name: "Barcode Lookup",
+    envKeys: ["BARCODE_LOOKUP_API_KEY"],
+    priority: 20,
+    provides: ["product", "prices"],
+    rateLimit: { requests: 50, intervalMs: 60 * 1000 },
+    enabled: true,
+    lookup: fetchFromBarcodeLookup
+  },
+  {
+    id: "open-food-facts",
+    name: "Open Food Facts",
+    envKeys: [],
+    priority: 30,
+    provides: ["product"],
+    rateLimit: { requests: 100, intervalMs: 60 * 1000 },
+    enabled: true,
+    lookup: fetchFromOpenFoodFacts
+  },
+  {
+    id: "barcode-spider",
+    name: "Barcode Spider",
+    envKeys: ["BARCODE_SPIDER_API_KEY"],
+    priority: 40,
+    provides: ["product"],
+    enabled: true,
+    lookup: fetchFromBarcodeSpider
+  },
+  {
+    id: "walmart",
+    name: "Walmart",
+    envKeys: ["WALMART_API_KEY"],
+    priority: 50,
+    provides: ["prices"],
+    rateLimit: { requests: 5, intervalMs: 1000 },
+    enabled: true,
+    lookup: pricesOnlyLookup(fetchWalmartPrices)
+  },
+  {
+    id: "target",
+    name: "Target",
+    envKeys: [],
+    priority: 60,
+    provides: ["prices"],
+    enabled: true,
+    lookup: pricesOnlyLookup(fetchTargetPrices)
+  }
+];
+
+for (const provider of defaultProviders) {
+  registerLookupProvider({
+    ...provider,
+    enabled: provider.enabled && !disabledProviderIds.includes(provider.id)
+  });
+}
+
+// Field-level merging of product metadata
+// Every successful source contributes; for each field the first source in the
+// field's precedence list that has a usable value wins. Sources not listed fall
+// back to provider priority order.
+
+const MERGEABLE_FIELDS: ProductInfoField[] = ["name", "brand", "description", "imageUrl", "category"];
+
+// Placeholder values written by the fetchers when a source has no real data
+const PLACEHOLDER_VALUES = new Set(["Unknown Product"]);
+
+// e.g. PRODUCT_FIELD_PRECEDENCE="description=open-food-facts,upcitemdb;imageUrl=open-food-facts"
+function parseFieldPrecedence(config: string): Partial<Record<ProductInfoField, string[]>> {
+  const precedence: Partial<Record<ProductInfoField, string[]>> = {};
+  for (const entry of config.split(";")) {
+    const [field, ids] = entry.split("=").map(part => part?.trim());
+    if (!field || !ids || !MERGEABLE_FIELDS.includes(field as ProductInfoField)) continue;
+    precedence[field as ProductInfoField] = ids.split(",").map(id => id.trim()).filter(Boolean);
+  }
+  return precedence;
+}
+
+const fieldPrecedence = parseFieldPrecedence(process.env.PRODUCT_FIELD_PRECEDENCE || "");
+
+export function setFieldPrecedence(field: ProductInfoField, providerIds: string[]): void {
+  fieldPrecedence[field] = providerIds;
+}
+
+function hasUsableValue(value: string | undefined): value is string {
+  return !!value && value.trim().length > 0 && !PLACEHOLDER_VALUES.has(value);
+}
+
+export function mergeProductInfo(
+  barcode: string,
+  sources: { providerId: string; providerName: string; product: ProductInfo }[]
+): { product?: ProductInfo; provenance: ProductProvenance } {
+  const provenance: ProductProvenance = {};
+  if (sources.length === 0) return { provenance };
+
+  const merged: ProductInfo = { name: "Unknown Product", upc: barcode };
+
+  for (const field of MERGEABLE_FIELDS) {
+    const preferred = fieldPrecedence[field] || [];
+    const ordered = [
+      ...preferred
+        .map(id => sources.find(s => s.providerId === id))
+        .filter((s): s is typeof sources[number] => !!s),
+      ...sources.filter(s => !preferred.includes(s.providerId))
+    ];
+
+    for (const source of ordered) {
+      const value = source.product[field];
+      if (hasUsableValue(value)) {
+        merged[field] = value;
+        provenance[field] = source.providerName;
+        break;
+      }
+    }
+  }
+
+  return { product: merged, provenance };
+}
+
+export const PROVIDER_TIMEOUT_MS = parseInt(process.env.PRODUCT_LOOKUP_PROVIDER_TIMEOUT_MS || "5000");
+const LOOKUP_BUDGET_MS = parseInt(process.env.PRODUCT_LOOKUP_BUDGET_MS || "8000");
+
+// Deadline for one product lookup, shared by the lookup providers and merchant pricing APIs
+export function lookupDeadline(): number {
+  return Date.now() + LOOKUP_BUDGET_MS;
+}
+
+// Runs one upstream call against its own timeout, clipped to the overall deadline. The
+// call's signal is aborted when time runs out; `timedOutAfterMs` is set in that case.
+export async function runWithDeadline<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  deadline: number
+): Promise<{ result?: T; timedOutAfterMs?: number }> {
+  const clippedMs = Math.max(0, Math.min(timeoutMs, deadline - Date.now()));
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(null);
+    }, clippedMs);
+  });
+
+  try {
+    const result = await Promise.race([work(controller.signal).then(value => ({ value })), timeout]);
+    return result ? { result: result.value } : { timedOutAfterMs: clippedMs };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Runs one provider against its own deadline, clipped to the overall budget
+async function runProvider(
+  provider: ProductLookupProvider,
+  barcode: string,
+  deadline: number
+): Promise<ProviderRun> {
+  const startedAt = Date.now();
+
+  try {
+    const { result, timedOutAfterMs } = await runWithDeadline(
+      signal => provider.lookup(barcode, signal),
+      provider.timeoutMs ?? PROVIDER_TIMEOUT_MS,
+      deadline
+    );
+    const durationMs = Date.now() - startedAt;
+
+    if (!result) {
+      return { providerId: provider.id, outcome: { provider: provider.name, status: "timeout", durationMs, error: `Timed out after ${timedOutAfterMs}ms` } };
+    }
+
+    const status: ProviderStatus = result.success ? "success" : result.notFound ? "not_found" : "error";
+    return {
+      providerId: provider.id,
+      outcome: { provider: provider.name, status, durationMs, error: result.success ? undefined : result.error },
+      result
+    };
+  } catch (error) {
+    return {
+      providerId: provider.id,
+      outcome: { provider: provider.name, status: "error", durationMs: Date.now() - startedAt, error: (error as Error).message }
+    };
+  }
+}
+
+// Lookup cache
+// Found and not-found answers are remembered per provider so repeated lookups of the
+// same barcode (including typos) don't spend upstream quota. Errors and timeouts are not cached.
+
+const LOOKUP_CACHE_TTL_MS = parseInt(process.env.LOOKUP_CACHE_TTL_HOURS || "24") * 60 * 60 * 1000;
+const LOOKUP_CACHE_NEGATIVE_TTL_MS = parseInt(process.env.LOOKUP_CACHE_NEGATIVE_TTL_HOURS || "1") * 60 * 60 * 1000;
+
+async function readLookupCache(barcode: string): Promise<Map<string, LookupCacheEntry>> {
+  const fresh = new Map<string, LookupCacheEntry>();
+  try {
+    const now = new Date();
+    for (const entry of await storage.getLookupCacheEntries(barcode)) {
+      if (entry.expiresAt > now) {
+        fresh.set(entry.provider, entry);
+      }
+    }
+  } catch (error) {
+    console.error(`Lookup cache read error: ${(error as Error).message}`);
+  }
+  return fresh;
+}
+
+async function writeLookupCache(barcode: string, run: ProviderRun): Promise<void> {
+  const { status } = run.outcome;
+  if (run.outcome.cached || (status !== "success" && status !== "not_found")) return;
+
+  const found = status === "success";
+  try {
+    await storage.upsertLookupCacheEntry({
+      barcode,
+      provider: run.providerId,
+      found,
+      payload: run.result ?? null,
+      expiresAt: new Date(Date.now() + (found ? LOOKUP_CACHE_TTL_MS : LOOKUP_CACHE_NEGATIVE_TTL_MS))
+    });
+  } catch (error) {
+    console.error(`Lookup cache write error: ${(error as Error).message}`);
+  }
+}
+
+function cachedRun(provider: ProductLookupProvider, entry: LookupCacheEntry): ProviderRun {
+  const result = (entry.payload as BarcodeApiResponse | null) ?? { success: false, notFound: true };
+  return {
+    providerId: provider.id,
+    outcome: {
+      provider: provider.name,
+      status: entry.found ? "success" : "not_found",
+      durationMs: 0,
+      cached: true,
+      error: entry.found ? undefined : result.error
+    },
+    result
+  };
+}
+
 // Main function to fetch product data from multiple sources
-export async function fetchProductData(barcode: string): Promise<{
+// All providers are queried concurrently; whatever finishes within the budget is used.
+// Pass `refresh` to ignore cached answers and query every provider again, `pricesOnly`
+// to skip providers that only return product info, and `rateReserve` to leave part of
+// each provider's rate budget unused. `deadline` overrides the PRODUCT_LOOKUP_BUDGET_MS budget.
+export async function fetchProductData(
+  barcode: string,
+  options: { refresh?: boolean; pricesOnly?: boolean; rateReserve?: number; deadline?: number } = {}
+): Promise<{
   product?: ProductInfo;
+  provenance: ProductProvenance;
   prices: PriceInfo[];
   sources: string[];
+  providers: ProviderOutcome[];
 }> {
-  const results: BarcodeApiResponse[] = [];
+  const deadline = options.deadline ?? lookupDeadline();
   const prices: PriceInfo[] = [];
   const sources: string[] = [];
 
-  // Try multiple product databases
-  const upcResult = await fetchFromUPCItemDB(barcode);
-  results.push(upcResult);
-  if (upcResult.success) {
-    sources.push("UPC Database");
-    // Add pricing data from UPC Item DB if available
-    if (upcResult.prices) {
-      prices.push(...upcResult.prices);
+  const cache = options.refresh ? new Map<string, LookupCacheEntry>() : await readLookupCache(barcode);
+  const runnable = getLookupProviders().filter(p =>
+    p.enabled && isProviderConfigured(p) && (!options.pricesOnly || p.provides.includes("prices"))
+  );
+  const runs = await Promise.all(runnable.map((provider): Promise<ProviderRun> | ProviderRun => {
+    const cached = cache.get(provider.id);
+    if (cached) {
+      return cachedRun(provider, cached);
     }
-  }
-
-  const barcodeLookupResult = await fetchFromBarcodeLookup(barcode);
-  results.push(barcodeLookupResult);
-  if (barcodeLookupResult.success) {
-    sources.push("Barcode Lookup");
-    // Add pricing data from Barcode Lookup if available
-    if (barcodeLookupResult.prices) {
-      prices.push(...barcodeLookupResult.prices);
+    if (!acquireRateLimit(provider, options.rateReserve)) {
+      return { providerId: provider.id, outcome: { provider: provider.name, status: "rate_limited", durationMs: 0 } };
     }
-  }
+    return runProvider(provider, barcode, deadline);
+  }));
 
-  const foodResult = await fetchFromOpenFoodFacts(barcode);
-  results.push(foodResult);
-  if (foodResult.success) sources.push("Open Food Facts");
+  await Promise.all(runs.map(run => writeLookupCache(barcode, run)));
 
-  const spiderResult = await fetchFromBarcodeSpider(barcode);
-  results.push(spiderResult);
-  if (spiderResult.success) sources.push("Barcode Spider");
-
-  // Get pricing from retailers
-  const walmartPrices = await fetchWalmartPrices(barcode);
-  prices.push(...walmartPrices);
-  if (walmartPrices.length > 0) sources.push("Walmart");
-
-  const targetPrices = await fetchTargetPrices(barcode);
-  prices.push(...targetPrices);
-  if (targetPrices.length > 0) sources.push("Target");
+  for (const { outcome, result } of runs) {
+    if (outcome.status !== "success" || !result) continue;
+    sources.push(outcome.provider);
+    if (result.prices) {
+      prices.push(...result.prices.map(price => ({ ...price, source: outcome.provider })));
+    }
+  }
 
-  // Find the best product info (prefer UPC Database, then others)
-  const successfulResult = results.find(r => r.success && r.product);
+  // Runs stay in priority order, which is the merge fallback order
+  const { product, provenance } = mergeProductInfo(
+    barcode,
+    runs
+      .filter(r => r.result?.success && r.result.product)
+      .map(r => ({ providerId: r.providerId, providerName: r.outcome.provider, product: r.result!.product! }))
+  );
   
   return {
-    product: successfulResult?.product,
+    product,
+    provenance,
     prices,
-    sources
+    sources,
+    providers: runs.map(r => r.outcome)
   };
 }
-
-// Price comparison utilities
-export function findBestPrice(prices: PriceInfo[]): PriceInfo | null {
-  if (prices.length === 0) return null;
-  
-  return prices.reduce((best, current) => {
-    const bestPrice = parseFloat(best.price.replace(/[^0-9.]/g, ''));
-    const currentPrice = parseFloat(current.price.replace(/[^0-9.]/g, ''));
-    return currentPrice < bestPrice ? current : best;
-  });
-}
-
-export function calculateSavings(prices: PriceInfo[]): number {
-  if (prices.length < 2) return 0;
-  
-  const sortedPrices = prices
-    .map(p => parseFloat(p.price.replace(/[^0-9.]/g, '')))
-    .sort((a, b) => a - b);
-    
-  return sortedPrices[sortedPrices.length - 1] - sortedPrices[0];
-}
\ No newline at end of file
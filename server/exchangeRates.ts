@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import { storage } from "./storage";
+import { convertMoney, type ExchangeRates, type Money } from "@shared/money";
+import { exchangeRatesSchema } from "@shared/schema";
+
+// Currency prices are shown in when neither the request nor the user picks one
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || "USD").toUpperCase();
+
+// JSON file shaped like { "base": "USD", "rates": { "EUR": 0.92, "GBP": 0.79 } }
+const EXCHANGE_RATES_FILE = process.env.EXCHANGE_RATES_FILE;
+
+export class ExchangeRateService {
+  private exchangeRates: ExchangeRates = { base: BASE_CURRENCY, rates: {} };
+
+  // The rates file wins at startup when configured; otherwise the last stored
+  // table (e.g. from the admin endpoint) is used
+  async load(): Promise<void> {
+    if (EXCHANGE_RATES_FILE) {
+      await this.loadFile(EXCHANGE_RATES_FILE);
+      return;
+    }
+
+    const stored = await storage.getExchangeRates();
+    if (stored.length > 0) {
+      this.exchangeRates = {
+        base: stored[0].base,
+        rates: Object.fromEntries(stored.map(r => [r.currency, r.rate]))
+      };
+    }
+  }
+
+  async loadFile(path: string): Promise<ExchangeRates> {
+    const contents = JSON.parse(await fs.readFile(path, "utf8"));
+    return await this.update(contents, "file");
+  }
+
+  // Replaces the whole rate table; throws a ZodError for malformed input
+  async update(input: unknown, source: string): Promise<ExchangeRates> {
+    const exchangeRates = exchangeRatesSchema.parse(input);
+    await storage.replaceExchangeRates(exchangeRates, source);
+    this.exchangeRates = exchangeRates;
+    return exchangeRates;
+  }
+
+  getRates(): ExchangeRates {
+    return this.exchangeRates;
+  }
+
+  isSupported(currency: string): boolean {
+    return currency === this.exchangeRates.base || currency in this.exchangeRates.rates;
+  }
+
+  convert(value: Money, to: string): Money | null {
+    return convertMoney(value, to, this.exchangeRates);
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService();
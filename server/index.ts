@@ -4,9 +4,25 @@ dotenv.config();
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { priceRefreshScheduler } from "./priceRefresh";
+import { exchangeRateService } from "./exchangeRates";
+import { planCatalog } from "./plans";
+import { priceAlertEvaluator } from "./priceAlerts";
+import { notificationService } from "./notifications";
+import { subscriptionRenewalScheduler } from "./subscriptionRenewals";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Unparsed JSON body, for webhook signature checks
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -40,6 +56,19 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Prices still show in their own currency if rates can't be loaded
+  try {
+    await exchangeRateService.load();
+  } catch (error) {
+    console.error("Failed to load exchange rates:", error);
+  }
+
+  try {
+    await planCatalog.load();
+  } catch (error) {
+    console.error("Failed to load subscription plans:", error);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -69,5 +98,19 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    if (process.env.PRICE_REFRESH_ENABLED !== "false") {
+      priceRefreshScheduler.start();
+    }
+
+    if (process.env.PRICE_ALERTS_ENABLED !== "false") {
+      priceAlertEvaluator.start();
+    }
+
+    if (process.env.SUBSCRIPTION_RENEWALS_ENABLED !== "false") {
+      subscriptionRenewalScheduler.start();
+    }
+
+    notificationService.start();
   });
 })();
@@ -1,4 +1,9 @@
-import { storage } from "./storage";
+import { storage, type SubscriptionUpdate } from "./storage";
+import { planCatalog } from "./plans";
+import { startOfNextLocalDay } from "./timeZones";
+import { exchangeRateService } from "./exchangeRates";
+import { signClickId } from "./affiliateTracking";
+import { buildAffiliateLink } from "./affiliateLinks";
 import type { 
   User, 
   AffiliateClick, 
@@ -9,262 +14,320 @@ import type {
   InsertRevenueMetric,
   FeatureUsage,
   InsertFeatureUsage,
-  SubscriptionPlan,
   RevenueAnalytics,
   Retailer,
   Product
 } from "@shared/schema";
+import {
+  money,
+  zeroMoney,
+  addMoney,
+  multiplyMoney,
+  sumMoney,
+  toDecimalString,
+  type Money
+} from "@shared/money";
+
+// Revenue metrics are kept in a single reporting currency
+const REVENUE_CURRENCY = "USD";
+
+// Users are notified once when their paid plan is this close to expiring
+export const EXPIRY_WARNING_DAYS = 3;
+
+// Renewals are charged this long before the plan expires
+export const RENEWAL_LEAD_HOURS = 24;
+
+// A plan whose renewal payment failed stays active this many days past its expiry while
+// the charge is retried on the days (after expiry) listed in RENEWAL_RETRY_DAYS
+export const GRACE_PERIOD_DAYS = parseInt(process.env.SUBSCRIPTION_GRACE_DAYS || "7");
+export const RENEWAL_RETRY_DAYS = [1, 3, 5].filter(day => day < GRACE_PERIOD_DAYS);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Affiliate links may only send shoppers to web pages
+function isWebUrl(value: string | null | undefined): value is string {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Subscription fields of an account back on the free plan; a saved payment method is kept
+export const LAPSED_SUBSCRIPTION: SubscriptionUpdate = {
+  subscriptionTier: "free",
+  subscriptionExpiresAt: null,
+  subscriptionAutoRenew: false,
+  subscriptionNextRenewalAt: null,
+  subscriptionRenewalAttempts: 0,
+  subscriptionCreditMinor: 0,
+  subscriptionRenewalPlan: null
+};
+
+export interface ScanLimitStatus {
+  canScan: boolean;
+  scansUsed: number;
+  scansRemaining: number; // -1 when unlimited
+  dailyLimit: number | null; // null when unlimited
+  resetTime?: Date; // Next local midnight, when the count starts over
+}
+
+export function scanAllowance(dailyLimit: number, scansUsed: number, timeZone: string, now = new Date()): ScanLimitStatus {
+  const scansRemaining = Math.max(0, dailyLimit - scansUsed);
+  return {
+    canScan: scansRemaining > 0,
+    scansUsed,
+    scansRemaining,
+    dailyLimit,
+    resetTime: startOfNextLocalDay(now, timeZone)
+  };
+}
+
+// First renewal charge attempt for a plan expiring at the given time
+export function renewalDueAt(expiresAt: Date): Date {
+  return new Date(expiresAt.getTime() - RENEWAL_LEAD_HOURS * 60 * 60 * 1000);
+}
 
-// Subscription plans configuration
-export const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
-  {
-    id: "free",
-    name: "Free",
-    price: "0.00",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "10 scans per day",
-      "Basic price comparison",
-      "Scan history (7 days)",
-      "Community support"
-    ],
-    dailyScanLimit: 10,
-    priceAlerts: false,
-    bulkScanning: false,
-    analytics: false,
-    apiAccess: false
-  },
-  {
-    id: "premium",
-    name: "Premium",
-    price: "4.99",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "Unlimited scans",
-      "Price alerts & notifications",
-      "Advanced analytics",
-      "Extended scan history (90 days)",
-      "Priority support",
-      "Export data"
-    ],
-    priceAlerts: true,
-    bulkScanning: true,
-    analytics: true,
-    apiAccess: false
-  },
-  {
-    id: "business",
-    name: "Business",
-    price: "19.99",
-    currency: "USD",
-    interval: "month",
-    features: [
-      "Everything in Premium",
-      "API access (1000 calls/month)",
-      "Bulk scanning tools",
-      "Team collaboration",
-      "Custom integrations",
-      "Dedicated support"
-    ],
-    priceAlerts: true,
-    bulkScanning: true,
-    analytics: true,
-    apiAccess: true
+// True once the local day the count was started on is over
+export function scanCountExpired(lastReset: Date | null, timeZone: string, now = new Date()): boolean {
+  return !lastReset || now >= startOfNextLocalDay(lastReset, timeZone);
+}
+
+// When a paid plan stops giving access: at expiry, or at the end of the grace period
+// while a renewal is still being attempted
+export function subscriptionAccessEnds(user: User): Date | null {
+  const expiresAt = user.subscriptionExpiresAt;
+  if (!expiresAt) return null;
+  return user.subscriptionAutoRenew ? new Date(expiresAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS) : expiresAt;
+}
+
+export class SubscriptionChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubscriptionChangeError";
   }
-];
+}
 
 export class MonetizationService {
   
-  // Subscription management
+  // Subscription management. Lapsed plans are reported as free here; the renewal job
+  // (subscriptionRenewals.ts) moves the account itself back to the free plan.
   async checkSubscriptionStatus(userId: string): Promise<{
     isActive: boolean;
     tier: string;
     expiresAt?: Date;
     daysRemaining?: number;
+    autoRenew: boolean;
+    renewalPlan: string | null;
+    pastDue: boolean;
   }> {
+    const free = { tier: "free", autoRenew: false, renewalPlan: null, pastDue: false };
     const user = await storage.getUser(userId);
     if (!user) {
-      return { isActive: false, tier: "free" };
+      return { isActive: false, ...free };
     }
 
     const now = new Date();
     const subscriptionTier = user.subscriptionTier || "free";
     
     if (subscriptionTier === "free") {
-      return { isActive: true, tier: "free" };
+      return { isActive: true, ...free };
     }
 
     const expiresAt = user.subscriptionExpiresAt;
-    if (!expiresAt || expiresAt < now) {
-      // Subscription expired, downgrade to free
-      await storage.updateUserSubscription(userId, {
-        subscriptionTier: "free",
-        subscriptionExpiresAt: null
-      });
-      return { isActive: false, tier: "free" };
+    const accessEnds = subscriptionAccessEnds(user);
+    if (!expiresAt || !accessEnds || accessEnds <= now) {
+      return { isActive: false, ...free };
     }
 
-    const daysRemaining = Math.ceil((expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-    
     return {
       isActive: true,
       tier: subscriptionTier,
       expiresAt,
-      daysRemaining
+      daysRemaining: Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS),
+      autoRenew: user.subscriptionAutoRenew ?? false,
+      renewalPlan: user.subscriptionRenewalPlan,
+      pastDue: expiresAt <= now
     };
   }
 
-  async checkScanLimit(userId: string): Promise<{
-    canScan: boolean;
-    scansUsed: number;
-    scansRemaining: number;
-    resetTime?: Date;
-  }> {
+  // Cancels at the end of the period: the plan stays active until it expires and is not
+  // renewed. Cancelling while a renewal is past due ends the plan now.
+  async cancelSubscription(userId: string): Promise<void> {
+    const status = await this.checkSubscriptionStatus(userId);
+    if (status.tier === "free") throw new SubscriptionChangeError("No paid plan to cancel");
+
+    await storage.updateUserSubscription(userId, {
+      subscriptionAutoRenew: false,
+      subscriptionNextRenewalAt: null,
+      subscriptionRenewalAttempts: 0
+    });
+  }
+
+  // Undoes a cancellation before the plan expires
+  async resumeSubscription(userId: string): Promise<void> {
+    const user = await storage.getUser(userId);
+    const status = await this.checkSubscriptionStatus(userId);
+    if (!user || status.tier === "free" || status.pastDue || !status.expiresAt) {
+      throw new SubscriptionChangeError("No active plan to resume");
+    }
+    if (!user.subscriptionPaymentToken) {
+      throw new SubscriptionChangeError("No saved payment method; subscribe again once the plan has ended");
+    }
+    if (user.subscriptionAutoRenew) return;
+
+    await storage.updateUserSubscription(userId, {
+      subscriptionAutoRenew: true,
+      subscriptionNextRenewalAt: renewalDueAt(status.expiresAt),
+      subscriptionRenewalAttempts: 0
+    });
+  }
+
+  // Daily scans reset at midnight in the given IANA time zone
+  // `barcode` is the product being looked up: one already counted today can be looked up
+  // again after the limit is reached
+  async checkScanLimit(userId: string, timeZone = "UTC", barcode?: string): Promise<ScanLimitStatus> {
     const user = await storage.getUser(userId);
     if (!user) {
-      return { canScan: false, scansUsed: 0, scansRemaining: 0 };
+      return { canScan: false, scansUsed: 0, scansRemaining: 0, dailyLimit: 0 };
     }
 
     const subscriptionStatus = await this.checkSubscriptionStatus(userId);
-    const plan = SUBSCRIPTION_PLANS.find(p => p.id === subscriptionStatus.tier);
+    const plan = planCatalog.planFor(subscriptionStatus.tier);
     
-    // Premium and business users have unlimited scans
+    // Plans without a daily limit have unlimited scans
     if (!plan?.dailyScanLimit) {
-      return { canScan: true, scansUsed: 0, scansRemaining: -1 };
+      return { canScan: true, scansUsed: 0, scansRemaining: -1, dailyLimit: null };
     }
 
-    // Check if we need to reset daily count
     const now = new Date();
-    const lastReset = user.lastScanResetDate || new Date();
-    const shouldReset = now.toDateString() !== lastReset.toDateString();
-
-    if (shouldReset) {
+    if (scanCountExpired(user.lastScanResetDate, timeZone, now)) {
       await storage.resetDailyScanCount(userId);
-      return { 
-        canScan: true, 
-        scansUsed: 0, 
-        scansRemaining: plan.dailyScanLimit,
-        resetTime: new Date(now.getTime() + 24 * 60 * 60 * 1000)
-      };
+      return scanAllowance(plan.dailyScanLimit, 0, timeZone, now);
     }
 
-    const scansUsed = user.dailyScansCount || 0;
-    const scansRemaining = Math.max(0, plan.dailyScanLimit - scansUsed);
-    
-    return {
-      canScan: scansRemaining > 0,
-      scansUsed,
-      scansRemaining,
-      resetTime: new Date(now.getTime() + 24 * 60 * 60 * 1000)
-    };
+    const status = scanAllowance(plan.dailyScanLimit, user.dailyScansCount || 0, timeZone, now);
+    return barcode && user.dailyScannedBarcodes.includes(barcode) ? { ...status, canScan: true } : status;
   }
 
-  async incrementScanCount(userId: string): Promise<void> {
-    await storage.incrementDailyScanCount(userId);
+  // Counts a lookup against the daily limit. False when the limit was reached first, e.g.
+  // by concurrent lookups; without a barcode the lookup is counted even if repeated.
+  async countScan(userId: string, timeZone = "UTC", barcode?: string): Promise<boolean> {
+    const status = await this.checkScanLimit(userId, timeZone, barcode);
+    if (status.dailyLimit === null) return true;
+    return storage.countDailyScan(userId, status.dailyLimit, barcode);
   }
 
   // Affiliate marketing
-  async generateAffiliateUrl(
-    userId: string | null,
-    productId: number,
-    retailerId: number,
-    originalUrl: string
-  ): Promise<string> {
-    const retailer = await storage.getRetailerById(retailerId);
-    
-    // If retailer doesn't have affiliate program, return original URL
-    if (!retailer?.affiliateProgram || !retailer.affiliateBaseUrl) {
-      return originalUrl;
-    }
-
-    // Track the affiliate click
+  // Records a shopper's click on a retailer's offer and returns the signed click id for its
+  // /go/:clickId link. The link leads to the page stored with the offer, so it can't be
+  // pointed elsewhere; null when the product has no offer with a page from that retailer.
+  async createAffiliateClick(userId: string | null, productId: number, retailerId: number): Promise<string | null> {
+    const product = await storage.getProductById(productId);
+    const offer = product?.prices.find(price => price.retailerId === retailerId);
+    if (!offer || !isWebUrl(offer.url)) return null;
+
+    const retailer = offer.retailer;
     const affiliateClick: InsertAffiliateClick = {
       userId,
       productId,
       retailerId,
-      affiliateUrl: originalUrl,
+      affiliateUrl: offer.url,
       commissionRate: retailer.affiliateCommissionRate || "0%",
-      estimatedCommission: "0.00"
+      estimatedCommissionMinor: 0,
+      currency: REVENUE_CURRENCY
     };
 
-    await storage.trackAffiliateClick(affiliateClick);
+    const click = await storage.trackAffiliateClick(affiliateClick);
+    return signClickId(click.id);
+  }
+
+  // Where a followed /go/:clickId link sends the shopper; the first follow is logged
+  async followAffiliateClick(clickId: number): Promise<string | undefined> {
+    const click = await storage.getAffiliateClick(clickId);
+    if (!click) return undefined;
 
-    // Generate affiliate URL (simplified - in production, integrate with actual affiliate networks)
-    const affiliateParams = new URLSearchParams({
-      ref: 'pricescan',
-      uid: userId || 'anonymous',
-      pid: productId.toString()
-    });
+    if (!click.redirectedAt) {
+      await storage.updateAffiliateClick(click.id, { redirectedAt: new Date() });
+    }
+    return this.generateAffiliateUrl(await storage.getRetailerById(click.retailerId), click);
+  }
+
+  // The retailer's affiliate link for a click, built for its network. The signed click id
+  // goes along as the sub-id, which the network sends back in its conversion postback.
+  generateAffiliateUrl(retailer: Retailer | undefined, click: AffiliateClick): string {
+    // If retailer doesn't have affiliate program, return original URL
+    if (!retailer?.affiliateProgram) {
+      return click.affiliateUrl;
+    }
 
-    return `${retailer.affiliateBaseUrl}?${affiliateParams.toString()}&url=${encodeURIComponent(originalUrl)}`;
+    const affiliateUrl = buildAffiliateLink(retailer, {
+      destinationUrl: click.affiliateUrl,
+      clickId: signClickId(click.id),
+      productId: click.productId
+    });
+    if (!affiliateUrl) {
+      console.warn(`Incomplete affiliate link settings for ${retailer.name} (network: ${retailer.affiliateNetwork ?? "none"}); sending the shopper on untracked`);
+      return click.affiliateUrl;
+    }
+    return affiliateUrl;
   }
 
-  async trackAffiliateConversion(affiliateClickId: number, orderValue: string): Promise<void> {
+  // Records the commission on a sale; undefined for an unknown click or one whose
+  // conversion was already recorded, so repeated postbacks count once
+  async trackAffiliateConversion(affiliateClickId: number, orderValue: Money): Promise<AffiliateClick | undefined> {
     const click = await storage.getAffiliateClick(affiliateClickId);
-    if (!click) return;
+    if (!click) return undefined;
 
+    // Commission rates are percentages such as "3.5%", not money
     const commissionRate = parseFloat(click.commissionRate?.replace('%', '') || '0') / 100;
-    const orderAmount = parseFloat(orderValue);
-    const commission = (orderAmount * commissionRate).toFixed(2);
+    const commission = multiplyMoney(orderValue, commissionRate);
 
-    await storage.updateAffiliateClick(affiliateClickId, {
-      conversionTracked: true,
-      actualCommission: commission
-    });
+    const converted = await storage.recordAffiliateConversion(affiliateClickId, commission.amountMinor, commission.currency);
+    if (!converted) return undefined;
 
     // Update revenue metrics
-    await this.updateDailyRevenue(new Date(), {
-      affiliateRevenue: commission
-    });
+    const revenue = exchangeRateService.convert(commission, REVENUE_CURRENCY);
+    if (revenue) {
+      await this.updateDailyRevenue(new Date(), { affiliateRevenue: revenue });
+    } else {
+      console.warn(`No exchange rate for ${commission.currency}; affiliate click ${affiliateClickId} left out of revenue metrics`);
+    }
+    return converted;
   }
 
   // Revenue analytics
   async updateDailyRevenue(date: Date, revenue: {
-    affiliateRevenue?: string;
-    subscriptionRevenue?: string;
-    adRevenue?: string;
+    affiliateRevenue?: Money;
+    subscriptionRevenue?: Money;
+    adRevenue?: Money;
   }): Promise<void> {
     const dateStr = date.toISOString().split('T')[0];
     const existing = await storage.getRevenueMetricsByDate(dateStr);
+    const zero = zeroMoney(REVENUE_CURRENCY);
+
+    // Throws CurrencyMismatchError for amounts not in the reporting currency
+    const affiliateRevenue = addMoney(money(existing?.affiliateRevenueMinor ?? 0, REVENUE_CURRENCY), revenue.affiliateRevenue ?? zero);
+    const subscriptionRevenue = addMoney(money(existing?.subscriptionRevenueMinor ?? 0, REVENUE_CURRENCY), revenue.subscriptionRevenue ?? zero);
+    const adRevenue = addMoney(money(existing?.adRevenueMinor ?? 0, REVENUE_CURRENCY), revenue.adRevenue ?? zero);
+    const totalRevenue = sumMoney([affiliateRevenue, subscriptionRevenue, adRevenue], REVENUE_CURRENCY);
+
+    const updatedRevenue = {
+      affiliateRevenueMinor: affiliateRevenue.amountMinor,
+      subscriptionRevenueMinor: subscriptionRevenue.amountMinor,
+      adRevenueMinor: adRevenue.amountMinor,
+      totalRevenueMinor: totalRevenue.amountMinor,
+      currency: REVENUE_CURRENCY
+    };
 
     if (existing) {
-      const updatedRevenue = {
-        affiliateRevenue: (
-          parseFloat(existing.affiliateRevenue || '0') + 
-          parseFloat(revenue.affiliateRevenue || '0')
-        ).toFixed(2),
-        subscriptionRevenue: (
-          parseFloat(existing.subscriptionRevenue || '0') + 
-          parseFloat(revenue.subscriptionRevenue || '0')
-        ).toFixed(2),
-        adRevenue: (
-          parseFloat(existing.adRevenue || '0') + 
-          parseFloat(revenue.adRevenue || '0')
-        ).toFixed(2)
-      };
-
-      updatedRevenue.totalRevenue = (
-        parseFloat(updatedRevenue.affiliateRevenue) +
-        parseFloat(updatedRevenue.subscriptionRevenue) +
-        parseFloat(updatedRevenue.adRevenue)
-      ).toFixed(2);
-
       await storage.updateRevenueMetrics(existing.id, updatedRevenue);
     } else {
-      const totalRevenue = (
-        parseFloat(revenue.affiliateRevenue || '0') +
-        parseFloat(revenue.subscriptionRevenue || '0') +
-        parseFloat(revenue.adRevenue || '0')
-      ).toFixed(2);
-
       const newMetric: InsertRevenueMetric = {
         date,
-        affiliateRevenue: revenue.affiliateRevenue || '0.00',
-        subscriptionRevenue: revenue.subscriptionRevenue || '0.00',
-        adRevenue: revenue.adRevenue || '0.00',
-        totalRevenue
+        ...updatedRevenue
       };
 
       await storage.createRevenueMetric(newMetric);
@@ -280,12 +343,14 @@ export class MonetizationService {
     const affiliateClicks = await storage.getAffiliateClicksRange(startDate, endDate);
     const activeSubscribers = await storage.getActiveSubscribersCount();
 
-    const totals = metrics.reduce((acc, metric) => ({
-      totalRevenue: acc.totalRevenue + parseFloat(metric.totalRevenue || '0'),
-      affiliateRevenue: acc.affiliateRevenue + parseFloat(metric.affiliateRevenue || '0'),
-      subscriptionRevenue: acc.subscriptionRevenue + parseFloat(metric.subscriptionRevenue || '0'),
-      adRevenue: acc.adRevenue + parseFloat(metric.adRevenue || '0')
-    }), { totalRevenue: 0, affiliateRevenue: 0, subscriptionRevenue: 0, adRevenue: 0 });
+    const sumColumn = (column: (metric: RevenueMetric) => number | null) =>
+      sumMoney(metrics.map(metric => money(column(metric) ?? 0, REVENUE_CURRENCY)), REVENUE_CURRENCY);
+    const totals = {
+      totalRevenue: sumColumn(metric => metric.totalRevenueMinor),
+      affiliateRevenue: sumColumn(metric => metric.affiliateRevenueMinor),
+      subscriptionRevenue: sumColumn(metric => metric.subscriptionRevenueMinor),
+      adRevenue: sumColumn(metric => metric.adRevenueMinor)
+    };
 
     const totalClicks = affiliateClicks.length;
     const conversions = affiliateClicks.filter(click => click.conversionTracked).length;
@@ -295,19 +360,27 @@ export class MonetizationService {
     const retailerStats = affiliateClicks.reduce((acc, click) => {
       const retailerId = click.retailerId;
       if (!acc[retailerId]) {
-        acc[retailerId] = { clicks: 0, conversions: 0, revenue: 0 };
+        acc[retailerId] = { clicks: 0, conversions: 0, revenue: zeroMoney(REVENUE_CURRENCY) };
       }
       acc[retailerId].clicks++;
       if (click.conversionTracked) {
         acc[retailerId].conversions++;
-        acc[retailerId].revenue += parseFloat(click.actualCommission || '0');
+        // Commissions are in the network's currency; ones without an exchange rate are left
+        // out, as in the daily revenue metrics
+        const commission = exchangeRateService.convert(
+          money(click.actualCommissionMinor ?? 0, click.currency || REVENUE_CURRENCY),
+          REVENUE_CURRENCY
+        );
+        if (commission) {
+          acc[retailerId].revenue = addMoney(acc[retailerId].revenue, commission);
+        }
       }
       return acc;
-    }, {} as Record<number, { clicks: number; conversions: number; revenue: number; }>);
+    }, {} as Record<number, { clicks: number; conversions: number; revenue: Money; }>);
 
     const topAffiliatePartners = await Promise.all(
       Object.entries(retailerStats)
-        .sort(([,a], [,b]) => b.revenue - a.revenue)
+        .sort(([,a], [,b]) => b.revenue.amountMinor - a.revenue.amountMinor)
         .slice(0, 5)
         .map(async ([retailerId, stats]) => {
           const retailer = await storage.getRetailerById(parseInt(retailerId));
@@ -315,20 +388,20 @@ export class MonetizationService {
             retailer: retailer?.name || 'Unknown',
             clicks: stats.clicks,
             conversions: stats.conversions,
-            revenue: stats.revenue.toFixed(2)
+            revenue: toDecimalString(stats.revenue)
           };
         })
     );
 
     const averageRevenuePerUser = activeSubscribers > 0 
-      ? (totals.totalRevenue / activeSubscribers).toFixed(2)
+      ? toDecimalString(multiplyMoney(totals.totalRevenue, 1 / activeSubscribers))
       : '0.00';
 
     return {
-      totalRevenue: totals.totalRevenue.toFixed(2),
-      affiliateRevenue: totals.affiliateRevenue.toFixed(2),
-      subscriptionRevenue: totals.subscriptionRevenue.toFixed(2),
-      adRevenue: totals.adRevenue.toFixed(2),
+      totalRevenue: toDecimalString(totals.totalRevenue),
+      affiliateRevenue: toDecimalString(totals.affiliateRevenue),
+      subscriptionRevenue: toDecimalString(totals.subscriptionRevenue),
+      adRevenue: toDecimalString(totals.adRevenue),
       activeSubscribers,
       conversionRate: parseFloat(conversionRate.toFixed(2)),
       averageRevenuePerUser,
@@ -350,24 +423,10 @@ export class MonetizationService {
     await storage.trackFeatureUsage(usage);
   }
 
+  // Feature keys are the entitlements listed on the user's plan
   async hasFeatureAccess(userId: string, feature: string): Promise<boolean> {
     const subscriptionStatus = await this.checkSubscriptionStatus(userId);
-    const plan = SUBSCRIPTION_PLANS.find(p => p.id === subscriptionStatus.tier);
-    
-    if (!plan) return false;
-
-    switch (feature) {
-      case 'price_alerts':
-        return plan.priceAlerts;
-      case 'bulk_scanning':
-        return plan.bulkScanning;
-      case 'analytics':
-        return plan.analytics;
-      case 'api_access':
-        return plan.apiAccess;
-      default:
-        return true; // Basic features available to all
-    }
+    return planCatalog.planFor(subscriptionStatus.tier)?.entitlements.includes(feature) ?? false;
   }
 }
 
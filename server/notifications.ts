@@ -0,0 +1,292 @@
+import webpush from "web-push";
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import type { Notification, NotificationChannelName, NotificationType, User } from "@shared/schema";
+
+// Notification delivery. enqueue() writes one outbox row per channel the user can be
+// reached on and tries to send it straight away; the dispatcher picks up rows that
+// failed and retries them with exponential backoff.
+//
+// NOTIFICATION_DELIVERY=local replaces web push and email with an in-memory stand-in
+// (see localDeliveries), so flows can be exercised without an SMTP server or push service.
+
+const DISPATCH_INTERVAL_MS = parseInt(process.env.NOTIFICATION_DISPATCH_INTERVAL_SECONDS || "30") * 1000;
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "5");
+const BATCH_SIZE = 50;
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+export const APP_BASE_URL = process.env.APP_BASE_URL || "http://localhost:5000";
+
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  url?: string; // In-app path, e.g. /product/00012345678905
+  dedupeKey?: string; // Enqueueing the same key for a user again is a no-op
+}
+
+// A failure that retrying won't fix, e.g. the user has no email address
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  canReach(user: User): Promise<boolean>;
+  send(notification: Notification, user: User): Promise<void>;
+}
+
+// In-app notifications are read from the outbox itself, so sending is a no-op
+class InAppChannel implements NotificationChannel {
+  name = "in_app" as const;
+
+  async canReach(): Promise<boolean> {
+    return true;
+  }
+
+  async send(): Promise<void> {}
+}
+
+class WebPushChannel implements NotificationChannel {
+  name = "web_push" as const;
+
+  constructor(private vapidDetails: { subject: string; publicKey: string; privateKey: string }) {}
+
+  async canReach(user: User): Promise<boolean> {
+    return (await storage.getPushSubscriptions(user.id)).length > 0;
+  }
+
+  // Counts as sent when any of the user's browsers accepted it
+  async send(notification: Notification, user: User): Promise<void> {
+    const subscriptions = await storage.getPushSubscriptions(user.id);
+    const payload = JSON.stringify({ title: notification.title, body: notification.body, url: notification.url });
+    let delivered = 0;
+    let lastError: unknown;
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { vapidDetails: this.vapidDetails, TTL: 24 * 60 * 60 }
+        );
+        delivered++;
+      } catch (error) {
+        // The push service no longer knows this browser
+        if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await storage.removePushSubscription(subscription.endpoint);
+        } else {
+          lastError = error;
+        }
+      }
+    }
+
+    if (delivered === 0) {
+      throw lastError ?? new PermanentDeliveryError("No active push subscriptions");
+    }
+  }
+}
+
+class EmailChannel implements NotificationChannel {
+  name = "email" as const;
+
+  constructor(private transporter: Transporter, private from: string) {}
+
+  async canReach(user: User): Promise<boolean> {
+    return !!user.email;
+  }
+
+  async send(notification: Notification, user: User): Promise<void> {
+    if (!user.email) throw new PermanentDeliveryError("User has no email address");
+    await this.transporter.sendMail({
+      from: this.from,
+      to: user.email,
+      subject: notification.title,
+      text: notification.url ? `${notification.body}\n\n${APP_BASE_URL}${notification.url}` : notification.body
+    });
+  }
+}
+
+export interface LocalDelivery {
+  channel: NotificationChannelName;
+  to: string; // Email address for email, user id otherwise
+  title: string;
+  body: string;
+  url: string | null;
+  deliveredAt: Date;
+}
+
+// Everything the local stand-in has "sent", oldest first
+export const localDeliveries: LocalDelivery[] = [];
+
+class LocalDeliveryChannel implements NotificationChannel {
+  constructor(public name: NotificationChannelName) {}
+
+  async canReach(): Promise<boolean> {
+    return true;
+  }
+
+  async send(notification: Notification, user: User): Promise<void> {
+    recordLocalDelivery({
+      channel: this.name,
+      to: this.name === "email" ? user.email ?? user.id : user.id,
+      title: notification.title,
+      body: notification.body,
+      url: notification.url
+    });
+  }
+}
+
+function recordLocalDelivery(delivery: Omit<LocalDelivery, "deliveredAt">): void {
+  localDeliveries.push({ ...delivery, deliveredAt: new Date() });
+  console.log(`[${delivery.channel}] to ${delivery.to}: ${delivery.title}`);
+}
+
+const LOCAL_DELIVERY = process.env.NOTIFICATION_DELIVERY === "local";
+const mailer = process.env.SMTP_URL ? nodemailer.createTransport(process.env.SMTP_URL) : null;
+const EMAIL_FROM = process.env.NOTIFICATION_EMAIL_FROM || "ShopSmartly <notifications@shopsmartly.app>";
+
+// Sends an email right away, bypassing the outbox. Meant for short-lived messages such
+// as login links, which must not be stored or retried after they expire.
+export async function sendEmail(to: string, subject: string, text: string): Promise<void> {
+  if (LOCAL_DELIVERY) {
+    recordLocalDelivery({ channel: "email", to, title: subject, body: text, url: null });
+    return;
+  }
+  if (!mailer) throw new PermanentDeliveryError("Email is not configured");
+  await mailer.sendMail({ from: EMAIL_FROM, to, subject, text });
+}
+
+function configuredChannels(): NotificationChannel[] {
+  const channels: NotificationChannel[] = [new InAppChannel()];
+
+  if (LOCAL_DELIVERY) {
+    channels.push(new LocalDeliveryChannel("web_push"), new LocalDeliveryChannel("email"));
+    return channels;
+  }
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    channels.push(new WebPushChannel({
+      subject: process.env.VAPID_SUBJECT || "mailto:notifications@shopsmartly.app",
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY
+    }));
+  }
+  if (mailer) {
+    channels.push(new EmailChannel(mailer, EMAIL_FROM));
+  }
+
+  return channels;
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+export class NotificationService {
+  private channels: Map<NotificationChannelName, NotificationChannel>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(channels: NotificationChannel[] = configuredChannels()) {
+    this.channels = new Map(channels.map(channel => [channel.name, channel]));
+  }
+
+  // Queues the message on every configured channel (or just the given ones) the user
+  // can be reached on. Delivery happens in the background.
+  async enqueue(userId: string, message: NotificationMessage, only?: NotificationChannelName[]): Promise<Notification[]> {
+    const user = await storage.getUser(userId);
+    if (!user) return [];
+
+    const queued: Notification[] = [];
+    for (const channel of Array.from(this.channels.values())) {
+      if (only && !only.includes(channel.name)) continue;
+      if (!(await channel.canReach(user))) continue;
+
+      const notification = await storage.createNotification({
+        userId,
+        channel: channel.name,
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        url: message.url ?? null,
+        dedupeKey: message.dedupeKey ?? null,
+        // Keeps the dispatcher off the row while the first attempt below is in flight
+        nextAttemptAt: new Date(Date.now() + BACKOFF_BASE_MS)
+      });
+      if (notification) queued.push(notification);
+    }
+
+    Promise.all(queued.map(notification => this.deliver(notification)))
+      .catch(error => console.error("Notification delivery error:", error));
+    return queued;
+  }
+
+  // VAPID public key browsers need to subscribe; null when web push is off
+  pushPublicKey(): string | null {
+    if (!this.channels.has("web_push")) return null;
+    return process.env.VAPID_PUBLIC_KEY || null;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.dispatchDue().catch(error => console.error("Notification dispatch error:", error));
+    }, DISPATCH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Sends pending notifications whose next attempt is due; returns how many were sent
+  async dispatchDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let sent = 0;
+      for (const notification of await storage.getDueNotifications(new Date(), BATCH_SIZE)) {
+        if (await this.deliver(notification)) sent++;
+      }
+      return sent;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(notification: Notification): Promise<boolean> {
+    const attempts = notification.attempts + 1;
+
+    try {
+      const channel = this.channels.get(notification.channel as NotificationChannelName);
+      if (!channel) throw new PermanentDeliveryError(`Channel ${notification.channel} is not configured`);
+      const user = await storage.getUser(notification.userId);
+      if (!user) throw new PermanentDeliveryError("User not found");
+
+      await channel.send(notification, user);
+      await storage.updateNotification(notification.id, { status: "sent", attempts, sentAt: new Date(), lastError: null });
+      return true;
+    } catch (error) {
+      const lastError = (error as Error).message;
+      if (error instanceof PermanentDeliveryError || attempts >= MAX_ATTEMPTS) {
+        await storage.updateNotification(notification.id, { status: "failed", attempts, lastError });
+      } else {
+        await storage.updateNotification(notification.id, {
+          attempts,
+          lastError,
+          nextAttemptAt: new Date(Date.now() + backoffMs(attempts))
+        });
+      }
+      return false;
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
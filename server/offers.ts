@@ -0,0 +1,186 @@
+import type { PriceInfo } from "./barcodeApis";
+import type { MerchantPrice } from "./pricingApis";
+import type { RetailerPriceInput } from "./storage";
+import type { Offer, OfferAvailability, Price, Retailer } from "@shared/schema";
+import {
+  convertMoney,
+  fromMajor,
+  formatMoney,
+  money,
+  parseAmount,
+  parseMoney,
+  subtractMoney,
+  minMoney,
+  maxMoney,
+  zeroMoney,
+  type ExchangeRates,
+  type Money
+} from "@shared/money";
+import { landedCost, type LandedCostOptions } from "@shared/landedCost";
+
+// Normalized offer model shared by barcode lookup providers, merchant pricing APIs and stored prices
+
+const availabilityLabels: Record<OfferAvailability, string> = {
+  in_stock: "In Stock",
+  out_of_stock: "Out of Stock",
+  limited: "Limited",
+  unknown: "Check availability"
+};
+
+// Shipping strings look like "$5.99" or "Free"
+export function parseShipping(text: string | null | undefined, currency: string): Money | null {
+  if (!text) return null;
+  if (/free/i.test(text)) return zeroMoney(currency);
+  return parseMoney(text, currency);
+}
+
+// Maps the free-text stock strings used by lookup providers onto the availability enum
+export function parseAvailability(text: string | null | undefined): OfferAvailability {
+  const value = (text || "").toLowerCase();
+  if (value.includes("out of stock") || value.includes("unavailable") || value.includes("sold out")) {
+    return "out_of_stock";
+  }
+  if (value.includes("limited") || value.includes("low stock")) return "limited";
+  if (value.includes("in stock") || value.includes("available") || value.includes("prime")) return "in_stock";
+  return "unknown";
+}
+
+export function offerFromPriceInfo(priceInfo: PriceInfo, observedAt = new Date()): Offer | null {
+  // A currency reported by the provider beats whatever symbol the price text carries
+  const price = priceInfo.currency
+    ? parseAmount(priceInfo.price, priceInfo.currency)
+    : parseMoney(priceInfo.price);
+  if (!price) return null;
+  return {
+    retailer: priceInfo.retailer,
+    price,
+    convertedPrice: null,
+    shipping: null,
+    landedCost: null,
+    convertedLandedCost: null,
+    availability: parseAvailability(priceInfo.availability),
+    url: priceInfo.url || null,
+    source: priceInfo.source || null,
+    lastUpdated: observedAt.toISOString()
+  };
+}
+
+export function offerFromMerchantPrice(merchantPrice: MerchantPrice): Offer {
+  return {
+    retailer: merchantPrice.merchant,
+    price: fromMajor(merchantPrice.price, merchantPrice.currency),
+    convertedPrice: null,
+    shipping: parseShipping(merchantPrice.shipping, merchantPrice.currency),
+    landedCost: null,
+    convertedLandedCost: null,
+    availability: merchantPrice.availability,
+    url: merchantPrice.url || null,
+    source: merchantPrice.source || null,
+    lastUpdated: merchantPrice.lastUpdated.toISOString()
+  };
+}
+
+export function offerFromStoredPrice(price: Price & { retailer: Retailer }): Offer {
+  return {
+    retailer: price.retailer.name,
+    price: money(price.priceMinor, price.currency),
+    convertedPrice: null,
+    shipping: price.shippingMinor === null ? null : money(price.shippingMinor, price.currency),
+    landedCost: null,
+    convertedLandedCost: null,
+    availability: parseAvailability(price.stock),
+    url: price.url || null,
+    source: null,
+    lastUpdated: (price.updatedAt ?? new Date()).toISOString()
+  };
+}
+
+// Keeps the cheapest offer per retailer, cheapest first within each currency
+export function mergeOffers(offers: Offer[]): Offer[] {
+  const byRetailer = new Map<string, Offer>();
+  for (const offer of offers) {
+    const current = byRetailer.get(offer.retailer);
+    if (!current || (offer.price.currency === current.price.currency && offer.price.amountMinor < current.price.amountMinor)) {
+      byRetailer.set(offer.retailer, offer);
+    }
+  }
+  return Array.from(byRetailer.values()).sort((a, b) =>
+    a.price.currency.localeCompare(b.price.currency) || a.price.amountMinor - b.price.amountMinor
+  );
+}
+
+export function normalizeOffers(priceInfos: PriceInfo[], merchantPrices: MerchantPrice[] = []): Offer[] {
+  return mergeOffers([
+    ...priceInfos.map(priceInfo => offerFromPriceInfo(priceInfo)).filter((offer): offer is Offer => offer !== null),
+    ...merchantPrices.map(offerFromMerchantPrice)
+  ]);
+}
+
+// What an offer is ranked by: its landed cost in the display currency, or its sticker
+// price when no landed cost was worked out
+export function comparablePrice(offer: Offer): Money | null {
+  return offer.convertedLandedCost ?? offer.convertedPrice;
+}
+
+// Fills in each offer's price and landed cost in the display currency and sorts cheapest
+// first by landed cost; offers in currencies without a configured rate keep null
+// converted amounts and go last
+export function withConvertedPrices(
+  offers: Offer[],
+  displayCurrency: string,
+  exchangeRates: ExchangeRates,
+  landedCostOptions: LandedCostOptions = {}
+): Offer[] {
+  return offers
+    .map(offer => {
+      const cost = landedCost(offer, landedCostOptions);
+      return {
+        ...offer,
+        convertedPrice: convertMoney(offer.price, displayCurrency, exchangeRates),
+        landedCost: cost,
+        convertedLandedCost: convertMoney(cost.total, displayCurrency, exchangeRates)
+      };
+    })
+    .sort((a, b) => {
+      const aPrice = comparablePrice(a);
+      const bPrice = comparablePrice(b);
+      if (!aPrice || !bPrice) return Number(!aPrice) - Number(!bPrice);
+      return aPrice.amountMinor - bPrice.amountMinor;
+    });
+}
+
+// Converted offers a shopper can act on; falls back to every converted offer
+// when nothing is in stock
+export function purchasableOffers(offers: Offer[]): Offer[] {
+  const comparable = offers.filter(o => comparablePrice(o) !== null);
+  const available = comparable.filter(o => o.availability !== "out_of_stock");
+  return available.length > 0 ? available : comparable;
+}
+
+function comparablePrices(offers: Offer[]): Money[] {
+  return purchasableOffers(offers).map(o => comparablePrice(o)!);
+}
+
+export function bestOfferPrice(offers: Offer[]): string {
+  const lowest = minMoney(comparablePrices(offers));
+  return lowest ? formatMoney(lowest) : "N/A";
+}
+
+export function offerSavings(offers: Offer[], displayCurrency: string): Money {
+  const prices = comparablePrices(offers);
+  const lowest = minMoney(prices);
+  const highest = maxMoney(prices);
+  if (!lowest || !highest) return zeroMoney(displayCurrency);
+  return subtractMoney(highest, lowest);
+}
+
+export function toRetailerPriceInput(offer: Offer): RetailerPriceInput {
+  return {
+    retailer: offer.retailer,
+    price: offer.price,
+    stock: availabilityLabels[offer.availability],
+    url: offer.url,
+    shipping: offer.shipping,
+    source: offer.source
+  };
+}
@@ -0,0 +1,243 @@
+import { after, before, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, generateKeyPairSync, randomUUID, sign } from "crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+// storage opens a (lazy) connection pool at import; the tests swap its methods for MemStorage
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { storage, MemStorage } = await import("./storage");
+const { OidcService } = await import("./oidc");
+
+interface IdentityClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: IdentityClaims;
+}
+
+const CLIENT_ID = "shopsmartly";
+const CLIENT_SECRET = "test-secret";
+
+// A minimal OpenID Connect provider: discovery, JWKS, an authorize endpoint that signs in
+// whoever signInAs() names without a login page, and a token endpoint that checks the
+// client secret, the redirect URI and the PKCE verifier before issuing an RS256 ID token
+class MockIssuer {
+  issuer = "";
+  private server: Server = createServer((req, res) => this.handle(req, res));
+  private keys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  private codes = new Map<string, PendingCode>();
+  private claims: IdentityClaims = { sub: "user-1" };
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  signInAs(claims: IdentityClaims): void {
+    this.claims = claims;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", this.issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["client_secret_post"]
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return json(200, { keys: [{ ...this.keys.publicKey.export({ format: "jwk" }), kid: "test", alg: "RS256", use: "sig" }] });
+    }
+
+    if (url.pathname === "/authorize") {
+      const params = url.searchParams;
+      if (params.get("response_type") !== "code" || params.get("code_challenge_method") !== "S256") {
+        return json(400, { error: "invalid_request" });
+      }
+      const code = randomUUID();
+      this.codes.set(code, {
+        clientId: params.get("client_id") ?? "",
+        redirectUri: params.get("redirect_uri") ?? "",
+        codeChallenge: params.get("code_challenge") ?? "",
+        nonce: params.get("nonce") ?? "",
+        claims: this.claims
+      });
+      const callback = new URL(params.get("redirect_uri") ?? "");
+      callback.searchParams.set("code", code);
+      callback.searchParams.set("state", params.get("state") ?? "");
+      res.writeHead(302, { Location: callback.href });
+      return res.end();
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      const form = new URLSearchParams(await readBody(req));
+      const pending = this.codes.get(form.get("code") ?? "");
+      this.codes.delete(form.get("code") ?? "");
+      const verifier = form.get("code_verifier") ?? "";
+      const challenge = createHash("sha256").update(verifier).digest("base64url");
+      if (
+        !pending ||
+        form.get("grant_type") !== "authorization_code" ||
+        form.get("client_id") !== pending.clientId ||
+        form.get("client_secret") !== CLIENT_SECRET ||
+        form.get("redirect_uri") !== pending.redirectUri ||
+        challenge !== pending.codeChallenge
+      ) {
+        return json(400, { error: "invalid_grant" });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = this.signJwt({
+        ...pending.claims,
+        iss: this.issuer,
+        aud: pending.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce
+      });
+      return json(200, { access_token: randomUUID(), token_type: "Bearer", expires_in: 300, id_token: idToken });
+    }
+
+    json(404, { error: "not_found" });
+  }
+
+  private signJwt(claims: object): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const input = `${encode({ alg: "RS256", typ: "JWT", kid: "test" })}.${encode(claims)}`;
+    return `${input}.${sign("sha256", Buffer.from(input), this.keys.privateKey).toString("base64url")}`;
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// Plays the browser: follows the authorization URL to the issuer and returns the
+// callback URL it redirects back to
+async function authorize(url: URL): Promise<URL> {
+  const response = await fetch(url, { redirect: "manual" });
+  assert.equal(response.status, 302);
+  return new URL(response.headers.get("location")!);
+}
+
+const issuer = new MockIssuer();
+let oidc: InstanceType<typeof OidcService>;
+
+before(async () => {
+  await issuer.start();
+});
+
+after(async () => {
+  await issuer.stop();
+});
+
+beforeEach(() => {
+  mock.restoreAll();
+  const memory = new MemStorage();
+  for (const method of ["getUserByIdentity", "getUserByEmail", "upsertUser", "linkUserIdentity"] as const) {
+    mock.method(storage, method, memory[method].bind(memory));
+  }
+  oidc = new OidcService([
+    { id: "mock", name: "Mock", issuer: issuer.issuer, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, scope: "openid email profile" }
+  ]);
+});
+
+test("discovers the issuer and sends the browser there with a PKCE challenge", async () => {
+  const { url, loginState } = await oidc.beginLogin("mock");
+
+  assert.equal(url.origin + url.pathname, `${issuer.issuer}/authorize`);
+  assert.equal(url.searchParams.get("client_id"), CLIENT_ID);
+  assert.equal(url.searchParams.get("redirect_uri"), oidc.redirectUri("mock"));
+  assert.equal(url.searchParams.get("state"), loginState.state);
+  assert.equal(url.searchParams.get("nonce"), loginState.nonce);
+  assert.equal(url.searchParams.get("code_challenge_method"), "S256");
+  assert.equal(
+    url.searchParams.get("code_challenge"),
+    createHash("sha256").update(loginState.codeVerifier).digest("base64url")
+  );
+});
+
+test("completes the login round trip and signs the same identity in again", async () => {
+  issuer.signInAs({ sub: "user-1", email: "Ada@Example.com", email_verified: true, given_name: "Ada", family_name: "Lovelace" });
+
+  const first = await oidc.beginLogin("mock");
+  const user = await oidc.completeLogin(first.loginState, await authorize(first.url));
+  assert.equal(user.email, "ada@example.com");
+  assert.equal(user.firstName, "Ada");
+  assert.equal(user.lastName, "Lovelace");
+  assert.equal((await storage.getUserByIdentity("mock", "user-1"))?.id, user.id);
+
+  issuer.signInAs({ sub: "user-1", given_name: "Augusta" });
+  const second = await oidc.beginLogin("mock");
+  const again = await oidc.completeLogin(second.loginState, await authorize(second.url));
+  assert.equal(again.id, user.id);
+  assert.equal(again.firstName, "Augusta");
+});
+
+test("joins an existing account by verified email only", async () => {
+  const existing = await storage.upsertUser({ id: "existing", email: "grace@example.com" });
+
+  issuer.signInAs({ sub: "user-2", email: "grace@example.com", email_verified: false });
+  const unverified = await oidc.beginLogin("mock");
+  assert.notEqual((await oidc.completeLogin(unverified.loginState, await authorize(unverified.url))).id, existing.id);
+
+  issuer.signInAs({ sub: "user-3", email: "grace@example.com", email_verified: true });
+  const verified = await oidc.beginLogin("mock");
+  assert.equal((await oidc.completeLogin(verified.loginState, await authorize(verified.url))).id, existing.id);
+});
+
+test("rejects a callback whose state doesn't match the login", async () => {
+  const { url, loginState } = await oidc.beginLogin("mock");
+  const callback = await authorize(url);
+  callback.searchParams.set("state", "forged");
+
+  await assert.rejects(oidc.completeLogin(loginState, callback));
+});
+
+test("rejects a code redeemed without the login's PKCE verifier", async () => {
+  const { url, loginState } = await oidc.beginLogin("mock");
+  const other = await oidc.beginLogin("mock");
+  const callback = await authorize(url);
+
+  await assert.rejects(oidc.completeLogin({ ...loginState, codeVerifier: other.loginState.codeVerifier }, callback));
+});
+
+test("rejects a replayed callback", async () => {
+  const { url, loginState } = await oidc.beginLogin("mock");
+  const callback = await authorize(url);
+  await oidc.completeLogin(loginState, callback);
+
+  await assert.rejects(oidc.completeLogin(loginState, callback));
+});
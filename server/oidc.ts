@@ -0,0 +1,159 @@
+import * as client from "openid-client";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { APP_BASE_URL } from "./notifications";
+import type { User } from "@shared/schema";
+
+// Sign-in through OpenID Connect providers using the authorization code flow with PKCE.
+// Providers are configured in OIDC_PROVIDERS as a JSON array, e.g.
+//   [{"id":"google","name":"Google","issuer":"https://accounts.google.com","clientId":"...","clientSecret":"..."}]
+// Issuers are discovered from their /.well-known/openid-configuration. Outside production
+// plain-http issuers are accepted, so a local mock issuer can stand in for a real one.
+
+const providerSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, "Provider ids may only use a-z, 0-9, _ and -"),
+  name: z.string().min(1),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().optional(), // Public clients rely on PKCE alone
+  scope: z.string().default("openid email profile"),
+});
+
+export type OidcProvider = z.infer<typeof providerSchema>;
+
+// Kept in the session between the redirect to the provider and its callback
+export interface OidcLoginState {
+  provider: string;
+  codeVerifier: string;
+  state: string;
+  nonce: string;
+}
+
+export class OidcLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+function parseProviders(json: string | undefined): OidcProvider[] {
+  if (!json) return [];
+  try {
+    return z.array(providerSchema).parse(JSON.parse(json));
+  } catch (error) {
+    throw new Error(`OIDC_PROVIDERS is invalid: ${(error as Error).message}`);
+  }
+}
+
+function stringClaim(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+export class OidcService {
+  private providers: Map<string, OidcProvider>;
+  private configurations = new Map<string, Promise<client.Configuration>>();
+
+  constructor(providers: OidcProvider[] = parseProviders(process.env.OIDC_PROVIDERS)) {
+    this.providers = new Map(providers.map(provider => [provider.id, provider]));
+  }
+
+  // What the login page needs to show a button per provider
+  listProviders(): { id: string; name: string }[] {
+    return Array.from(this.providers.values()).map(({ id, name }) => ({ id, name }));
+  }
+
+  hasProvider(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  redirectUri(providerId: string): string {
+    return `${APP_BASE_URL}/api/login/oidc/${providerId}/callback`;
+  }
+
+  // URL to send the browser to, plus the state the callback has to be checked against
+  async beginLogin(providerId: string): Promise<{ url: URL; loginState: OidcLoginState }> {
+    const provider = this.getProvider(providerId);
+    const config = await this.configuration(provider);
+
+    const loginState: OidcLoginState = {
+      provider: provider.id,
+      codeVerifier: client.randomPKCECodeVerifier(),
+      state: client.randomState(),
+      nonce: client.randomNonce()
+    };
+    const url = client.buildAuthorizationUrl(config, {
+      redirect_uri: this.redirectUri(provider.id),
+      scope: provider.scope,
+      code_challenge: await client.calculatePKCECodeChallenge(loginState.codeVerifier),
+      code_challenge_method: "S256",
+      state: loginState.state,
+      nonce: loginState.nonce
+    });
+
+    return { url, loginState };
+  }
+
+  // Exchanges the authorization code from the callback URL and returns the signed-in user
+  async completeLogin(loginState: OidcLoginState, callbackUrl: URL): Promise<User> {
+    const provider = this.getProvider(loginState.provider);
+    const config = await this.configuration(provider);
+
+    const tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+      pkceCodeVerifier: loginState.codeVerifier,
+      expectedState: loginState.state,
+      expectedNonce: loginState.nonce,
+      idTokenExpected: true
+    });
+    const claims = tokens.claims();
+    if (!claims) throw new OidcLoginError(`${provider.name} did not return an ID token`);
+
+    return this.upsertUser(provider, claims);
+  }
+
+  // Returning users are found by their provider identity. A first sign-in joins the
+  // account with the same email when the provider has verified it, otherwise a new
+  // account is created. Profile fields follow the latest claims.
+  private async upsertUser(provider: OidcProvider, claims: client.IDToken): Promise<User> {
+    const email = claims.email_verified === true ? stringClaim(claims.email)?.toLowerCase() : undefined;
+    const existing =
+      (await storage.getUserByIdentity(provider.id, claims.sub)) ??
+      (email ? await storage.getUserByEmail(email) : undefined);
+
+    const user = await storage.upsertUser({
+      id: existing?.id ?? randomUUID(),
+      email: existing ? existing.email : email ?? null,
+      firstName: stringClaim(claims.given_name) ?? existing?.firstName ?? null,
+      lastName: stringClaim(claims.family_name) ?? existing?.lastName ?? null,
+      profileImageUrl: stringClaim(claims.picture) ?? existing?.profileImageUrl ?? null
+    });
+    await storage.linkUserIdentity({ userId: user.id, provider: provider.id, subject: claims.sub });
+    return user;
+  }
+
+  private getProvider(id: string): OidcProvider {
+    const provider = this.providers.get(id);
+    if (!provider) throw new OidcLoginError(`Unknown sign-in provider: ${id}`);
+    return provider;
+  }
+
+  // Discovery runs once per provider; a failed attempt is retried on the next login
+  private configuration(provider: OidcProvider): Promise<client.Configuration> {
+    let config = this.configurations.get(provider.id);
+    if (!config) {
+      const insecure = new URL(provider.issuer).protocol === "http:" && process.env.NODE_ENV !== "production";
+      config = client.discovery(
+        new URL(provider.issuer),
+        provider.clientId,
+        provider.clientSecret,
+        provider.clientSecret ? client.ClientSecretPost(provider.clientSecret) : client.None(),
+        insecure ? { execute: [client.allowInsecureRequests] } : undefined
+      );
+      config.catch(() => this.configurations.delete(provider.id));
+      this.configurations.set(provider.id, config);
+    }
+    return config;
+  }
+}
+
+export const oidcService = new OidcService();
@@ -0,0 +1,730 @@
+import type { IncomingHttpHeaders } from "http";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import {
+  ApiError,
+  Client,
+  Environment,
+  OrdersController,
+  PaymentsController,
+  CheckoutPaymentIntent,
+  OrderStatus,
+  PaypalExperienceUserAction,
+  PaypalPaymentTokenUsageType,
+  StoreInVaultInstruction
+} from "@paypal/paypal-server-sdk";
+import { storage } from "./storage";
+import { APP_BASE_URL, notificationService } from "./notifications";
+import { LAPSED_SUBSCRIPTION, RENEWAL_RETRY_DAYS, monetizationService, renewalDueAt } from "./monetization";
+import { planCatalog, paidPlanPrice, FREE_PLAN_ID } from "./plans";
+import { money, toDecimalString, type Money } from "@shared/money";
+import type { SubscriptionPayment, SubscriptionPlan, User } from "@shared/schema";
+
+// Subscription checkout. A PaymentGateway takes the payer through the processor's
+// checkout and reports what happened through webhooks; PaymentService records each
+// attempt in subscription_payments and extends the user's plan once it is paid.
+// Checkout saves the payer's payment method with the processor, so renewals and
+// upgrades can be charged without the payer present.
+//
+// PAYMENT_GATEWAY picks the gateway: "paypal" (the default when PAYPAL_CLIENT_ID is set)
+// or "fake", a local stand-in that approves every checkout, for development and tests.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PaymentEventType = "approved" | "completed" | "failed" | "refunded";
+
+// Something the processor reports about one of our payments
+export interface PaymentEvent {
+  type: PaymentEventType;
+  paymentId: string; // The gateway's id, stored in subscription_payments.payment_id
+}
+
+export interface CheckoutRequest {
+  reference: string; // Our subscription_payments id
+  description: string;
+  amount: Money;
+  returnUrl: string; // The gateway appends ?token=<paymentId> after the payer approves
+  cancelUrl: string;
+  savePaymentMethod: boolean; // Ask the payer to let us charge renewals
+}
+
+export interface CaptureResult {
+  status: "completed" | "failed";
+  paymentMethodToken?: string; // The saved payment method, when the payer agreed to one
+}
+
+export interface ChargeRequest {
+  reference: string; // Our subscription_payments id
+  description: string;
+  amount: Money;
+  paymentMethodToken: string;
+}
+
+export interface Charge {
+  paymentId: string | null; // null when the processor turned the charge down outright
+  status: "completed" | "failed";
+}
+
+export interface Checkout {
+  paymentId: string;
+  paymentUrl: string; // Where to send the payer
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody: Buffer;
+  body: unknown; // Parsed JSON; gateways check its shape after verifying the signature
+}
+
+export interface PaymentGateway {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  // Collects a payment the payer has approved
+  capture(paymentId: string): Promise<CaptureResult>;
+  // Charges a saved payment method without the payer present
+  charge(request: ChargeRequest): Promise<Charge>;
+  // Refunds a completed payment in full
+  refund(paymentId: string): Promise<void>;
+  // Throws WebhookVerificationError unless the request really came from the processor;
+  // null for events we don't act on
+  verifyWebhook(request: WebhookRequest): Promise<PaymentEvent | null>;
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+export class CheckoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckoutError";
+  }
+}
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+// The parts of a PayPal webhook event we read; events carry many more fields
+const paypalWebhookEventSchema = z.object({
+  event_type: z.string(),
+  resource: z.object({
+    id: z.string().optional(),
+    supplementary_data: z.object({
+      related_ids: z.object({ order_id: z.string().optional() }).optional()
+    }).optional(),
+    links: z.array(z.object({ rel: z.string(), href: z.string() })).optional()
+  })
+});
+
+type PayPalWebhookResource = z.infer<typeof paypalWebhookEventSchema>["resource"];
+
+class PayPalGateway implements PaymentGateway {
+  name = "paypal";
+  private orders: OrdersController;
+  private payments: PaymentsController;
+  private apiBaseUrl: string;
+
+  constructor(
+    private clientId: string,
+    private clientSecret: string,
+    private webhookId: string | undefined,
+    production: boolean
+  ) {
+    const client = new Client({
+      clientCredentialsAuthCredentials: { oAuthClientId: clientId, oAuthClientSecret: clientSecret },
+      environment: production ? Environment.Production : Environment.Sandbox,
+      timeout: 15000
+    });
+    this.orders = new OrdersController(client);
+    this.payments = new PaymentsController(client);
+    this.apiBaseUrl = production ? "https://api-m.paypal.com" : "https://api-m.sandbox.paypal.com";
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    const { result: order } = await this.orders.createOrder({
+      body: {
+        intent: CheckoutPaymentIntent.Capture,
+        purchaseUnits: [{
+          amount: { currencyCode: request.amount.currency, value: toDecimalString(request.amount) },
+          customId: request.reference,
+          description: request.description
+        }],
+        paymentSource: {
+          paypal: {
+            experienceContext: {
+              returnUrl: request.returnUrl,
+              cancelUrl: request.cancelUrl,
+              userAction: PaypalExperienceUserAction.PayNow
+            },
+            attributes: request.savePaymentMethod
+              ? { vault: { storeInVault: StoreInVaultInstruction.OnSuccess, usageType: PaypalPaymentTokenUsageType.Merchant } }
+              : undefined
+          }
+        }
+      }
+    });
+
+    const approveLink = order.links?.find(link => link.rel === "approve" || link.rel === "payer-action");
+    if (!order.id || !approveLink) throw new Error("PayPal order has no approval link");
+    return { paymentId: order.id, paymentUrl: approveLink.href };
+  }
+
+  async capture(paymentId: string): Promise<CaptureResult> {
+    const { result: order } = await this.orders.captureOrder({ id: paymentId, prefer: "return=representation" });
+    return {
+      status: order.status === OrderStatus.Completed ? "completed" : "failed",
+      paymentMethodToken: order.paymentSource?.paypal?.attributes?.vault?.id
+    };
+  }
+
+  // Orders paid from a vaulted PayPal account usually complete as they are created;
+  // declines come back as 422
+  async charge(request: ChargeRequest): Promise<Charge> {
+    try {
+      const { result: order } = await this.orders.createOrder({
+        paypalRequestId: `charge-${request.reference}`,
+        body: {
+          intent: CheckoutPaymentIntent.Capture,
+          purchaseUnits: [{
+            amount: { currencyCode: request.amount.currency, value: toDecimalString(request.amount) },
+            customId: request.reference,
+            description: request.description
+          }],
+          paymentSource: { paypal: { vaultId: request.paymentMethodToken } }
+        }
+      });
+      if (!order.id) throw new Error("PayPal returned an order without an id");
+
+      let status = order.status;
+      if (status === OrderStatus.Approved) {
+        status = (await this.orders.captureOrder({ id: order.id, prefer: "return=minimal" })).result.status;
+      }
+      return { paymentId: order.id, status: status === OrderStatus.Completed ? "completed" : "failed" };
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 422) return { paymentId: null, status: "failed" };
+      throw error;
+    }
+  }
+
+  async refund(paymentId: string): Promise<void> {
+    const { result: order } = await this.orders.getOrder({ id: paymentId });
+    const captureId = order.purchaseUnits?.[0]?.payments?.captures?.[0]?.id;
+    if (!captureId) throw new RefundError(`PayPal order ${paymentId} has no capture to refund`);
+    await this.payments.refundCapturedPayment({ captureId, paypalRequestId: `refund-${captureId}` });
+  }
+
+  // PayPal checks the signature headers for us; the webhook id ties them to our app
+  async verifyWebhook(request: WebhookRequest): Promise<PaymentEvent | null> {
+    if (!this.webhookId) throw new WebhookVerificationError("PAYPAL_WEBHOOK_ID is not set");
+
+    const header = (name: string) => request.headers[name] as string | undefined;
+    const response = await fetch(`${this.apiBaseUrl}/v1/notifications/verify-webhook-signature`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await this.accessToken()}` },
+      body: JSON.stringify({
+        auth_algo: header("paypal-auth-algo"),
+        cert_url: header("paypal-cert-url"),
+        transmission_id: header("paypal-transmission-id"),
+        transmission_sig: header("paypal-transmission-sig"),
+        transmission_time: header("paypal-transmission-time"),
+        webhook_id: this.webhookId,
+        webhook_event: request.body
+      })
+    });
+    if (!response.ok) throw new Error(`PayPal webhook verification failed with ${response.status}`);
+    const { verification_status } = await response.json();
+    if (verification_status !== "SUCCESS") throw new WebhookVerificationError("Invalid PayPal webhook signature");
+
+    const parsed = paypalWebhookEventSchema.safeParse(request.body);
+    if (!parsed.success) return null;
+
+    const event = parsed.data;
+    const orderId = event.resource.supplementary_data?.related_ids?.order_id;
+    switch (event.event_type) {
+      case "CHECKOUT.ORDER.APPROVED":
+        return event.resource.id ? { type: "approved", paymentId: event.resource.id } : null;
+      case "PAYMENT.CAPTURE.COMPLETED":
+        return orderId ? { type: "completed", paymentId: orderId } : null;
+      case "PAYMENT.CAPTURE.DENIED":
+      case "PAYMENT.CAPTURE.DECLINED":
+        return orderId ? { type: "failed", paymentId: orderId } : null;
+      case "PAYMENT.CAPTURE.REFUNDED": {
+        const refundedOrderId = await this.refundedOrderId(event.resource);
+        return refundedOrderId ? { type: "refunded", paymentId: refundedOrderId } : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Refund notifications only link to the refunded capture, which knows its order
+  private async refundedOrderId(refund: PayPalWebhookResource): Promise<string | undefined> {
+    const captureUrl = refund.links?.find(link => link.rel === "up")?.href;
+    const captureId = captureUrl?.split("/").pop();
+    if (!captureId) return undefined;
+
+    const { result: capture } = await this.payments.getCapturedPayment({ captureId });
+    return capture.supplementaryData?.relatedIds?.orderId;
+  }
+
+  private async accessToken(): Promise<string> {
+    const response = await fetch(`${this.apiBaseUrl}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`
+      },
+      body: "grant_type=client_credentials"
+    });
+    if (!response.ok) throw new Error(`PayPal token request failed with ${response.status}`);
+    return (await response.json()).access_token;
+  }
+}
+
+const FAKE_WEBHOOK_SECRET = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "fake-payment-webhook-secret";
+
+const fakeWebhookEventSchema = z.object({
+  type: z.enum(["approved", "completed", "failed", "refunded"]),
+  paymentId: z.string()
+});
+
+// Signature the fake gateway expects in the x-fake-signature header of a webhook body
+export function signFakeWebhook(rawBody: string | Buffer): string {
+  return createHmac("sha256", FAKE_WEBHOOK_SECRET).update(rawBody).digest("hex");
+}
+
+// Approves every checkout. Its checkout page (GET /api/payments/fake/checkout/:paymentId)
+// sends the payer straight back to the return URL; webhooks are JSON bodies like
+// {"type": "completed", "paymentId": "..."} signed with signFakeWebhook. Charges of saved
+// payment methods succeed unless FAKE_PAYMENT_DECLINE_CHARGES=true, to try out dunning.
+export class FakePaymentGateway implements PaymentGateway {
+  name = "fake";
+  private returnUrls = new Map<string, string>();
+  private declineCharges = process.env.FAKE_PAYMENT_DECLINE_CHARGES === "true";
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    const paymentId = `fake_${randomUUID()}`;
+    this.returnUrls.set(paymentId, request.returnUrl);
+    return { paymentId, paymentUrl: `${APP_BASE_URL}/api/payments/fake/checkout/${paymentId}` };
+  }
+
+  // Where the fake checkout page redirects after "approval"
+  approvalRedirect(paymentId: string): string | undefined {
+    const returnUrl = this.returnUrls.get(paymentId);
+    if (!returnUrl) return undefined;
+    this.returnUrls.delete(paymentId);
+    return `${returnUrl}?token=${encodeURIComponent(paymentId)}`;
+  }
+
+  async capture(): Promise<CaptureResult> {
+    return { status: "completed", paymentMethodToken: `fake_pm_${randomUUID()}` };
+  }
+
+  async charge(): Promise<Charge> {
+    return { paymentId: `fake_${randomUUID()}`, status: this.declineCharges ? "failed" : "completed" };
+  }
+
+  async refund(): Promise<void> {}
+
+  async verifyWebhook(request: WebhookRequest): Promise<PaymentEvent | null> {
+    const signature = Buffer.from(String(request.headers["x-fake-signature"] ?? ""), "hex");
+    const expected = Buffer.from(signFakeWebhook(request.rawBody), "hex");
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new WebhookVerificationError("Invalid fake webhook signature");
+    }
+
+    const parsed = fakeWebhookEventSchema.safeParse(request.body);
+    return parsed.success ? parsed.data : null;
+  }
+}
+
+function configuredGateway(): PaymentGateway | null {
+  const gateway = process.env.PAYMENT_GATEWAY || (process.env.PAYPAL_CLIENT_ID ? "paypal" : "");
+
+  if (gateway === "fake") {
+    if (process.env.NODE_ENV === "production") throw new Error("The fake payment gateway can't be used in production");
+    return new FakePaymentGateway();
+  }
+  if (gateway === "paypal") {
+    if (!process.env.PAYPAL_CLIENT_ID || !process.env.PAYPAL_CLIENT_SECRET) {
+      throw new Error("PAYPAL_CLIENT_ID and PAYPAL_CLIENT_SECRET must be set to use PayPal");
+    }
+    return new PayPalGateway(
+      process.env.PAYPAL_CLIENT_ID,
+      process.env.PAYPAL_CLIENT_SECRET,
+      process.env.PAYPAL_WEBHOOK_ID,
+      process.env.PAYPAL_ENVIRONMENT === "production"
+    );
+  }
+  return null;
+}
+
+// Calendar months, clamped so Jan 31 + 1 month is the last day of February. A negative
+// count goes back in time.
+export function addBillingInterval(date: Date, interval: SubscriptionPlan["interval"], count = 1): Date {
+  const months = (interval === "year" ? 12 : 1) * count;
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+export class PaymentService {
+  constructor(public gateway: PaymentGateway | null = configuredGateway()) {}
+
+  // Starts a paid plan, or moves an active subscriber to another one. Returns the URL to
+  // send the payer to when a payment needs their approval.
+  async subscribe(userId: string, planId: string): Promise<{ paymentUrl?: string }> {
+    const plan = planCatalog.get(planId);
+    if (!plan?.active || !paidPlanPrice(plan)) throw new CheckoutError("Unknown paid plan");
+
+    const user = await storage.getUser(userId);
+    const status = await monetizationService.checkSubscriptionStatus(userId);
+    const current = planCatalog.get(status.tier);
+    if (!user || !paidPlanPrice(current) || status.pastDue) {
+      const { paymentUrl } = await this.checkout(userId, plan.id);
+      return { paymentUrl };
+    }
+
+    if (current!.id === plan.id) {
+      // Choosing the current plan again calls off a pending switch
+      if (!user.subscriptionRenewalPlan) throw new CheckoutError(`You are already on the ${plan.name} plan`);
+      await storage.updateUserSubscription(user.id, { subscriptionRenewalPlan: null });
+      return {};
+    }
+    return this.changePlan(user, current!, plan);
+  }
+
+  // Starts checkout for a paid plan and returns the URL to send the payer to
+  async checkout(userId: string, planId: string): Promise<{ paymentUrl: string; payment: SubscriptionPayment }> {
+    if (!this.gateway) throw new CheckoutError("Payments are not configured");
+
+    const plan = planCatalog.get(planId);
+    const amount = paidPlanPrice(plan);
+    if (!plan?.active || !amount) throw new CheckoutError("Unknown paid plan");
+
+    // The period is provisional until the payment completes
+    const now = new Date();
+    const payment = await storage.createSubscriptionPayment({
+      userId,
+      planType: plan.id,
+      kind: "purchase",
+      amountMinor: amount.amountMinor,
+      currency: amount.currency,
+      paymentMethod: this.gateway.name,
+      status: "pending",
+      subscriptionStartDate: now,
+      subscriptionEndDate: addBillingInterval(now, plan.interval),
+      isRecurring: true
+    });
+
+    return this.sendToCheckout(payment, `ShopSmartly ${plan.name} (1 ${plan.interval})`, true);
+  }
+
+  // Charges the saved payment method for the next period, switching to the renewal plan
+  // if one was chosen. A failed charge is retried on the RENEWAL_RETRY_DAYS after expiry;
+  // once those are used up the plan is left to lapse.
+  async renew(user: User): Promise<SubscriptionPayment | undefined> {
+    const plan = planCatalog.get(user.subscriptionRenewalPlan ?? user.subscriptionTier ?? "");
+    const price = paidPlanPrice(plan);
+    const expiresAt = user.subscriptionExpiresAt;
+    if (!plan || !price || !expiresAt) return undefined;
+
+    const credit = user.subscriptionCreditMinor ?? 0;
+    const payment = await storage.createSubscriptionPayment({
+      userId: user.id,
+      planType: plan.id,
+      kind: "renewal",
+      previousPlanType: user.subscriptionTier,
+      amountMinor: Math.max(0, price.amountMinor - credit),
+      currency: price.currency,
+      paymentMethod: user.subscriptionPaymentMethod,
+      status: "pending",
+      subscriptionStartDate: expiresAt,
+      subscriptionEndDate: addBillingInterval(expiresAt, plan.interval),
+      isRecurring: true
+    });
+
+    const result = await this.chargeSavedMethod(user, payment, `ShopSmartly ${plan.name} renewal`);
+    if (result.status !== "completed") {
+      await this.renewalFailed(user, plan, expiresAt);
+      return result;
+    }
+
+    if (credit > 0) {
+      await storage.updateUserSubscription(user.id, { subscriptionCreditMinor: Math.max(0, credit - price.amountMinor) });
+    }
+    return result;
+  }
+
+  // Refunds a completed payment through the gateway it was made with
+  async refund(id: number): Promise<SubscriptionPayment> {
+    const payment = await storage.getSubscriptionPayment(id);
+    if (!payment || payment.status !== "completed") throw new RefundError("Only completed payments can be refunded");
+
+    if (payment.paymentId) {
+      if (this.gateway?.name !== payment.paymentMethod) {
+        throw new RefundError(`Payments made through ${payment.paymentMethod} can't be refunded here`);
+      }
+      await this.gateway.refund(payment.paymentId);
+    }
+    return (await this.applyRefund(payment)) ?? payment;
+  }
+
+  async handleWebhook(request: WebhookRequest): Promise<void> {
+    if (!this.gateway) throw new WebhookVerificationError("Payments are not configured");
+    const event = await this.gateway.verifyWebhook(request);
+    if (event) await this.handleEvent(event);
+  }
+
+  // Returns the payment as it stands after the event, or undefined for unknown payments
+  async handleEvent(event: PaymentEvent): Promise<SubscriptionPayment | undefined> {
+    if (!this.gateway) return undefined;
+    const payment = await storage.getSubscriptionPaymentByPaymentId(this.gateway.name, event.paymentId);
+    if (!payment) return undefined;
+
+    switch (event.type) {
+      case "approved":
+        return this.capture(payment);
+      case "completed":
+        return this.complete(payment);
+      case "failed":
+        return (await storage.updateSubscriptionPayment(payment.id, { status: "failed" }, ["pending", "processing"])) ?? payment;
+      case "refunded":
+        return (await this.applyRefund(payment)) ?? payment;
+    }
+  }
+
+  // Upgrades cost the price difference for the rest of the current period and apply once
+  // paid. Downgrades apply right away and credit the difference to the next renewal.
+  // A plan with another billing interval takes over at the next renewal.
+  private async changePlan(user: User, from: SubscriptionPlan, to: SubscriptionPlan): Promise<{ paymentUrl?: string }> {
+    if (from.interval !== to.interval) {
+      if (!user.subscriptionAutoRenew) {
+        throw new CheckoutError("Turn renewal back on to switch billing interval, or subscribe again once your plan ends");
+      }
+      await storage.updateUserSubscription(user.id, { subscriptionRenewalPlan: to.id });
+      return {};
+    }
+
+    const expiresAt = user.subscriptionExpiresAt!;
+    const now = new Date();
+    const periodStart = addBillingInterval(expiresAt, from.interval, -1);
+    const remaining = Math.min(1, Math.max(0, (expiresAt.getTime() - now.getTime()) / (expiresAt.getTime() - periodStart.getTime())));
+    const difference = Math.round((paidPlanPrice(to)!.amountMinor - paidPlanPrice(from)!.amountMinor) * remaining);
+
+    if (difference <= 0) {
+      await storage.updateUserSubscription(user.id, {
+        subscriptionTier: to.id,
+        subscriptionCreditMinor: (user.subscriptionCreditMinor ?? 0) - difference,
+        subscriptionRenewalPlan: null
+      });
+      return {};
+    }
+
+    const payment = await storage.createSubscriptionPayment({
+      userId: user.id,
+      planType: to.id,
+      kind: "upgrade",
+      previousPlanType: from.id,
+      amountMinor: difference,
+      currency: to.currency,
+      paymentMethod: this.gateway?.name ?? null,
+      status: "pending",
+      subscriptionStartDate: now,
+      subscriptionEndDate: expiresAt,
+      isRecurring: false
+    });
+    const description = `ShopSmartly upgrade to ${to.name}`;
+
+    if (user.subscriptionPaymentToken && user.subscriptionPaymentMethod === this.gateway?.name) {
+      const charged = await this.chargeSavedMethod(user, payment, description);
+      if (charged.status !== "completed") throw new CheckoutError("Your saved payment method was declined");
+      return {};
+    }
+
+    const { paymentUrl } = await this.sendToCheckout(payment, description, false);
+    return { paymentUrl };
+  }
+
+  private async sendToCheckout(
+    payment: SubscriptionPayment,
+    description: string,
+    savePaymentMethod: boolean
+  ): Promise<{ paymentUrl: string; payment: SubscriptionPayment }> {
+    if (!this.gateway) throw new CheckoutError("Payments are not configured");
+
+    const checkout = await this.gateway.createCheckout({
+      reference: String(payment.id),
+      description,
+      amount: money(payment.amountMinor, payment.currency ?? "USD"),
+      returnUrl: `${APP_BASE_URL}/api/payments/${this.gateway.name}/return`,
+      cancelUrl: `${APP_BASE_URL}/?checkout=cancelled`,
+      savePaymentMethod
+    });
+    const updated = await storage.updateSubscriptionPayment(payment.id, { paymentId: checkout.paymentId });
+
+    return { paymentUrl: checkout.paymentUrl, payment: updated ?? payment };
+  }
+
+  // A charge that can't be made, or that the gateway errors on, counts as failed
+  private async chargeSavedMethod(user: User, payment: SubscriptionPayment, description: string): Promise<SubscriptionPayment> {
+    if (payment.amountMinor === 0) return this.complete(payment);
+
+    const token = user.subscriptionPaymentToken;
+    let charge: Charge = { paymentId: null, status: "failed" };
+    if (token && this.gateway && this.gateway.name === user.subscriptionPaymentMethod) {
+      try {
+        charge = await this.gateway.charge({
+          reference: String(payment.id),
+          description,
+          amount: money(payment.amountMinor, payment.currency ?? "USD"),
+          paymentMethodToken: token
+        });
+      } catch (error) {
+        console.error(`Charge for subscription payment ${payment.id} failed:`, error);
+      }
+    }
+
+    const charged = (await storage.updateSubscriptionPayment(payment.id, { paymentId: charge.paymentId })) ?? payment;
+    if (charge.status === "completed") return this.complete(charged);
+    return (await storage.updateSubscriptionPayment(payment.id, { status: "failed" }, ["pending"])) ?? charged;
+  }
+
+  private async renewalFailed(user: User, plan: SubscriptionPlan, expiresAt: Date): Promise<void> {
+    const attempts = (user.subscriptionRenewalAttempts ?? 0) + 1;
+    const retryDay = RENEWAL_RETRY_DAYS[attempts - 1];
+    const nextAttempt = retryDay === undefined ? null : new Date(expiresAt.getTime() + retryDay * DAY_MS);
+
+    // Without another attempt the plan stops renewing and lapses at its expiry
+    await storage.updateUserSubscription(user.id, {
+      subscriptionRenewalAttempts: attempts,
+      subscriptionNextRenewalAt: nextAttempt,
+      subscriptionAutoRenew: nextAttempt !== null
+    });
+    await notificationService.enqueue(user.id, {
+      type: "subscription_payment_failed",
+      title: "We couldn't renew your subscription",
+      body: nextAttempt
+        ? `The payment for your ${plan.name} plan didn't go through. We'll try again on ${nextAttempt.toDateString()}.`
+        : `The payment for your ${plan.name} plan didn't go through again, so it won't be renewed.`,
+      dedupeKey: `subscription_payment_failed:${expiresAt.toISOString()}:${attempts}`
+    });
+  }
+
+  // The payer's browser and the approval webhook can both get here; only the one that
+  // moves the payment to "processing" captures it
+  private async capture(payment: SubscriptionPayment): Promise<SubscriptionPayment> {
+    const claimed = await storage.updateSubscriptionPayment(payment.id, { status: "processing" }, ["pending"]);
+    if (!claimed) return payment;
+
+    let result: CaptureResult;
+    try {
+      result = await this.gateway!.capture(claimed.paymentId!);
+    } catch (error) {
+      await storage.updateSubscriptionPayment(payment.id, { status: "pending" }, ["processing"]);
+      throw error;
+    }
+
+    if (result.status === "failed") {
+      return (await storage.updateSubscriptionPayment(payment.id, { status: "failed" }, ["processing"])) ?? claimed;
+    }
+    return this.complete(claimed, result.paymentMethodToken);
+  }
+
+  // Buying the plan the user is already on extends it from the current expiry, a
+  // different plan starts now. Renewals cover the period they were created for, and
+  // upgrades only change the plan.
+  private async complete(payment: SubscriptionPayment, paymentMethodToken?: string): Promise<SubscriptionPayment> {
+    const plan = planCatalog.get(payment.planType);
+    const user = await storage.getUser(payment.userId);
+    if (!plan || !user) return payment;
+
+    const now = new Date();
+    let start = payment.subscriptionStartDate;
+    let end = payment.subscriptionEndDate;
+    if (payment.kind === "purchase") {
+      start = user.subscriptionTier === plan.id && user.subscriptionExpiresAt && user.subscriptionExpiresAt > now
+        ? user.subscriptionExpiresAt
+        : now;
+      end = addBillingInterval(start, plan.interval);
+    }
+
+    const completed = await storage.updateSubscriptionPayment(
+      payment.id,
+      { status: "completed", subscriptionStartDate: start, subscriptionEndDate: end },
+      ["pending", "processing"]
+    );
+    if (!completed) return payment; // Already applied
+
+    if (payment.kind === "upgrade") {
+      await storage.updateUserSubscription(payment.userId, { subscriptionTier: plan.id, subscriptionRenewalPlan: null });
+      return completed;
+    }
+
+    const savedMethod = paymentMethodToken
+      ? { subscriptionPaymentMethod: payment.paymentMethod, subscriptionPaymentToken: paymentMethodToken }
+      : {};
+    const autoRenew = payment.kind === "renewal" || (payment.isRecurring === true && paymentMethodToken !== undefined);
+    await storage.updateUserSubscription(payment.userId, {
+      ...savedMethod,
+      subscriptionTier: plan.id,
+      subscriptionExpiresAt: end,
+      subscriptionAutoRenew: autoRenew,
+      subscriptionNextRenewalAt: autoRenew ? renewalDueAt(end) : null,
+      subscriptionRenewalAttempts: 0,
+      subscriptionRenewalPlan: null
+    });
+    return completed;
+  }
+
+  // Refunding a payment takes back what it paid for, if that hasn't been used up yet: an
+  // upgrade switches back to the plan it replaced, a period that hasn't started (a
+  // renewal, or a purchase that extended the plan) comes off the end of the plan, and a
+  // period already under way ends the plan now
+  private async applyRefund(payment: SubscriptionPayment): Promise<SubscriptionPayment | undefined> {
+    const refunded = await storage.updateSubscriptionPayment(payment.id, { status: "refunded" }, ["completed"]);
+    if (!refunded) return undefined;
+
+    const user = await storage.getUser(payment.userId);
+    const now = new Date();
+    if (!user || user.subscriptionTier === FREE_PLAN_ID || payment.subscriptionEndDate <= now) return refunded;
+
+    if (payment.kind === "upgrade" && payment.previousPlanType) {
+      // A later plan change already replaced the upgrade
+      if (user.subscriptionTier === payment.planType) {
+        await storage.updateUserSubscription(user.id, { subscriptionTier: payment.previousPlanType });
+      }
+      return refunded;
+    }
+
+    if (payment.subscriptionStartDate > now && user.subscriptionExpiresAt) {
+      const periodMs = payment.subscriptionEndDate.getTime() - payment.subscriptionStartDate.getTime();
+      const expiresAt = new Date(user.subscriptionExpiresAt.getTime() - periodMs);
+      const isLastPeriod = expiresAt.getTime() === payment.subscriptionStartDate.getTime();
+      // Renewal stays off so the refunded period isn't charged again straight away
+      await storage.updateUserSubscription(user.id, {
+        subscriptionTier: isLastPeriod && payment.previousPlanType ? payment.previousPlanType : user.subscriptionTier,
+        subscriptionExpiresAt: expiresAt,
+        subscriptionAutoRenew: false,
+        subscriptionNextRenewalAt: null,
+        subscriptionRenewalAttempts: 0
+      });
+      return refunded;
+    }
+
+    await storage.updateUserSubscription(user.id, LAPSED_SUBSCRIPTION);
+    return refunded;
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { money, type Money } from "@shared/money";
+import { insertSubscriptionPlanSchema, type InsertSubscriptionPlan, type SubscriptionPlan } from "@shared/schema";
+
+// Subscription plans live in the subscription_plans table, so plans, prices and
+// entitlements can change without a deploy (PUT /api/admin/plans/:id). The catalog is
+// loaded at startup and kept in memory; plans missing from the table are added from
+// DEFAULT_PLANS, existing ones are left alone.
+
+// Everyone without a paid plan, including anonymous visitors, is on this plan
+export const FREE_PLAN_ID = "free";
+
+export const DEFAULT_PLANS: InsertSubscriptionPlan[] = [
+  {
+    id: FREE_PLAN_ID,
+    name: "Free",
+    priceMinor: 0,
+    currency: "USD",
+    interval: "month",
+    features: [
+      "10 scans per day",
+      "Basic price comparison",
+      "Scan history (7 days)",
+      "Community support"
+    ],
+    entitlements: [],
+    dailyScanLimit: 10,
+    sortOrder: 0
+  },
+  {
+    id: "premium",
+    name: "Premium",
+    priceMinor: 499,
+    currency: "USD",
+    interval: "month",
+    features: [
+      "Unlimited scans",
+      "Price alerts & notifications",
+      "Advanced analytics",
+      "Extended scan history (90 days)",
+      "Priority support",
+      "Export data"
+    ],
+    entitlements: ["price_alerts", "bulk_scanning", "analytics"],
+    badge: "Most Popular",
+    sortOrder: 10
+  },
+  {
+    id: "premium-yearly",
+    name: "Premium",
+    priceMinor: 4990,
+    currency: "USD",
+    interval: "year",
+    features: [
+      "Unlimited scans",
+      "Price alerts & notifications",
+      "Advanced analytics",
+      "Extended scan history (90 days)",
+      "Priority support",
+      "Export data",
+      "2 months free"
+    ],
+    entitlements: ["price_alerts", "bulk_scanning", "analytics"],
+    badge: "Most Popular",
+    sortOrder: 11
+  },
+  {
+    id: "business",
+    name: "Business",
+    priceMinor: 1999,
+    currency: "USD",
+    interval: "month",
+    features: [
+      "Everything in Premium",
+      "API access (1000 calls/month)",
+      "Bulk scanning tools",
+      "Team collaboration",
+      "Custom integrations",
+      "Dedicated support"
+    ],
+    entitlements: ["price_alerts", "bulk_scanning", "analytics", "api_access"],
+    badge: "Best Value",
+    sortOrder: 20
+  },
+  {
+    id: "business-yearly",
+    name: "Business",
+    priceMinor: 19990,
+    currency: "USD",
+    interval: "year",
+    features: [
+      "Everything in Premium",
+      "API access (1000 calls/month)",
+      "Bulk scanning tools",
+      "Team collaboration",
+      "Custom integrations",
+      "Dedicated support",
+      "2 months free"
+    ],
+    entitlements: ["price_alerts", "bulk_scanning", "analytics", "api_access"],
+    badge: "Best Value",
+    sortOrder: 21
+  }
+];
+
+const planChangesSchema = z.record(z.unknown());
+
+// A plan's price, or null for free plans
+export function paidPlanPrice(plan: SubscriptionPlan | undefined): Money | null {
+  return plan && plan.priceMinor > 0 ? money(plan.priceMinor, plan.currency) : null;
+}
+
+export class PlanCatalog {
+  private plans: SubscriptionPlan[] = [];
+
+  async load(): Promise<void> {
+    await storage.addMissingSubscriptionPlans(DEFAULT_PLANS);
+    this.plans = await storage.getSubscriptionPlans();
+  }
+
+  // Creates or updates a plan. Changes are applied over the current plan before
+  // validating, so an update can send just { active: false }. Throws a ZodError for
+  // malformed input.
+  async save(id: string, changes: unknown): Promise<SubscriptionPlan> {
+    const plan = insertSubscriptionPlanSchema.parse({ ...this.get(id), ...planChangesSchema.parse(changes), id });
+    const saved = await storage.upsertSubscriptionPlan(plan);
+    this.plans = await storage.getSubscriptionPlans();
+    return saved;
+  }
+
+  // Plans that can be bought, in display order
+  listAvailable(): SubscriptionPlan[] {
+    return this.plans.filter(plan => plan.active);
+  }
+
+  // Any plan, including retired ones that still have subscribers
+  get(id: string): SubscriptionPlan | undefined {
+    return this.plans.find(plan => plan.id === id);
+  }
+
+  // Unknown plan ids fall back to the free plan
+  planFor(id: string | null | undefined): SubscriptionPlan | undefined {
+    return (id ? this.get(id) : undefined) ?? this.get(FREE_PLAN_ID);
+  }
+}
+
+export const planCatalog = new PlanCatalog();
@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import { monetizationService } from "./monetization";
+import { exchangeRateService } from "./exchangeRates";
+import { notificationService } from "./notifications";
+import { comparablePrice, mergeOffers, offerFromStoredPrice, purchasableOffers, withConvertedPrices } from "./offers";
+import { formatMoney, money } from "@shared/money";
+import type { LandedCostOptions } from "@shared/landedCost";
+import type { Offer, PriceAlert, PriceAlertEvent, ProductWithPrices } from "@shared/schema";
+
+// Background job that checks active price alerts against the lowest landed cost of
+// their product (for the user's saved region and memberships, converted to the alert's
+// currency) and records an event when one fires. An alert fires again only when the
+// price drops further, or after it has risen back above the target.
+
+const INTERVAL_MS = parseInt(process.env.PRICE_ALERT_INTERVAL_MINUTES || "15") * 60 * 1000;
+
+export interface PriceAlertRunSummary {
+  checked: number;
+  triggered: number;
+}
+
+// Cheapest purchasable offer by landed cost in the given currency
+function bestOffer(product: ProductWithPrices, currency: string, landedCostOptions: LandedCostOptions): Offer | undefined {
+  const offers = withConvertedPrices(
+    mergeOffers(product.prices.map(offerFromStoredPrice)),
+    currency,
+    exchangeRateService.getRates(),
+    landedCostOptions
+  );
+  return purchasableOffers(offers)[0];
+}
+
+export class PriceAlertEvaluator {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error("Price alert check error:", error));
+    }, INTERVAL_MS);
+    this.timer.unref();
+    console.log(`Price alerts checked every ${INTERVAL_MS / 60000} minutes`);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async runOnce(): Promise<PriceAlertRunSummary> {
+    const summary: PriceAlertRunSummary = { checked: 0, triggered: 0 };
+
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const alerts = await storage.getActivePriceAlerts();
+      const products = new Map<number, ProductWithPrices | undefined>();
+      const access = new Map<string, boolean>();
+      const landedCostOptions = new Map<string, LandedCostOptions>();
+
+      for (const alert of alerts) {
+        if (!access.has(alert.userId)) {
+          access.set(alert.userId, await monetizationService.hasFeatureAccess(alert.userId, "price_alerts"));
+          const user = await storage.getUser(alert.userId);
+          landedCostOptions.set(alert.userId, { region: user?.region ?? null, memberships: user?.memberships ?? [] });
+        }
+        if (!products.has(alert.productId)) {
+          products.set(alert.productId, await storage.getProductById(alert.productId));
+        }
+
+        // Alerts of users whose plan lapsed are kept but stop firing
+        const product = products.get(alert.productId);
+        if (!product || !access.get(alert.userId)) continue;
+
+        summary.checked++;
+        if (await this.evaluate(alert, product, landedCostOptions.get(alert.userId))) summary.triggered++;
+      }
+
+      if (summary.triggered > 0) {
+        console.log(`Price alerts: checked ${summary.checked}, triggered ${summary.triggered}`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async evaluate(
+    alert: PriceAlert,
+    product: ProductWithPrices,
+    landedCostOptions: LandedCostOptions = {}
+  ): Promise<PriceAlertEvent | null> {
+    const offer = bestOffer(product, alert.currency, landedCostOptions);
+    const price = offer && comparablePrice(offer);
+    const lastChecked = new Date();
+
+    if (!offer || !price) {
+      await storage.updatePriceAlert(alert.id, { lastChecked });
+      return null;
+    }
+
+    // Re-arm once the price is back above the target
+    if (price.amountMinor > alert.targetPriceMinor) {
+      await storage.updatePriceAlert(alert.id, { lastChecked, lastTriggeredPriceMinor: null });
+      return null;
+    }
+
+    if (alert.lastTriggeredPriceMinor !== null && price.amountMinor >= alert.lastTriggeredPriceMinor) {
+      await storage.updatePriceAlert(alert.id, { lastChecked });
+      return null;
+    }
+
+    await storage.updatePriceAlert(alert.id, { lastChecked, lastTriggeredPriceMinor: price.amountMinor });
+    const event = await storage.addPriceAlertEvent({
+      alertId: alert.id,
+      userId: alert.userId,
+      productId: alert.productId,
+      retailerId: product.prices.find(p => p.retailer.name === offer.retailer)?.retailerId ?? null,
+      priceMinor: price.amountMinor,
+      targetPriceMinor: alert.targetPriceMinor,
+      currency: alert.currency
+    });
+
+    await notificationService.enqueue(alert.userId, {
+      type: "price_alert",
+      title: `Price drop: ${product.name}`,
+      body: `${formatMoney(price)} with shipping and tax at ${offer.retailer}, at or below your ${formatMoney(money(alert.targetPriceMinor, alert.currency))} target`,
+      url: `/product/${product.barcode}`,
+      dedupeKey: `price_alert_event:${event.id}`
+    });
+    return event;
+  }
+}
+
+export const priceAlertEvaluator = new PriceAlertEvaluator();
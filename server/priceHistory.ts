@@ -0,0 +1,62 @@
+import type {
+  PriceHistoryInterval,
+  PriceHistoryPoint,
+  PriceHistorySeries,
+  PriceObservation,
+  Retailer
+} from "@shared/schema";
+import { money, toMajor } from "@shared/money";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PRICE_HISTORY_INTERVALS: PriceHistoryInterval[] = ["day", "week"];
+
+// Start of the UTC day, or of the ISO week (Monday) containing it
+export function bucketStart(date: Date, interval: PriceHistoryInterval): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === "week") {
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+  }
+  return day;
+}
+
+// Groups observations (oldest first) into one series per retailer and currency, with a
+// point per bucket. Amounts stay in minor units until the end so the average rounds to
+// the currency's own minor unit.
+export function buildPriceHistorySeries(
+  observations: (PriceObservation & { retailer: Retailer })[],
+  interval: PriceHistoryInterval
+): PriceHistorySeries[] {
+  const seriesByKey = new Map<string, { retailer: string; currency: string; buckets: Map<string, number[]> }>();
+
+  for (const observation of observations) {
+    const key = `${observation.currency}:${observation.retailer.name}`;
+    let series = seriesByKey.get(key);
+    if (!series) {
+      series = { retailer: observation.retailer.name, currency: observation.currency, buckets: new Map() };
+      seriesByKey.set(key, series);
+    }
+
+    const bucket = bucketStart(observation.observedAt, interval).toISOString().slice(0, 10);
+    const amounts = series.buckets.get(bucket) ?? [];
+    amounts.push(observation.amountMinor);
+    series.buckets.set(bucket, amounts);
+  }
+
+  return Array.from(seriesByKey.values()).map(({ retailer, currency, buckets }) => {
+    const major = (amountMinor: number) => toMajor(money(amountMinor, currency));
+    return {
+      retailer,
+      currency,
+      points: Array.from(buckets.entries()).map(([bucket, amounts]): PriceHistoryPoint => ({
+        bucket,
+        low: major(Math.min(...amounts)),
+        high: major(Math.max(...amounts)),
+        average: major(Math.round(amounts.reduce((sum, a) => sum + a, 0) / amounts.length)),
+        last: major(amounts[amounts.length - 1]),
+        observations: amounts.length
+      }))
+    };
+  });
+}
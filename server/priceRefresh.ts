@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { productIngestService } from "./productIngest";
+import type { Product } from "@shared/schema";
+
+// Background job that keeps stored prices fresh. Each tick picks a batch of products
+// whose prices are older than PRICE_REFRESH_MAX_AGE_HOURS (favorited, listed and
+// alerted products first) and refreshes them the same way as the refresh-prices
+// endpoint: lookup providers and merchant pricing APIs.
+
+const MAX_AGE_MS = parseInt(process.env.PRICE_REFRESH_MAX_AGE_HOURS || "24") * 60 * 60 * 1000;
+const INTERVAL_MS = parseInt(process.env.PRICE_REFRESH_INTERVAL_MINUTES || "15") * 60 * 1000;
+const BATCH_SIZE = parseInt(process.env.PRICE_REFRESH_BATCH_SIZE || "20");
+
+// Share of each provider's rate budget kept free for interactive lookups
+const RATE_RESERVE = parseFloat(process.env.PRICE_REFRESH_RATE_RESERVE || "0.5");
+
+export interface PriceRefreshRunSummary {
+  checked: number;
+  updated: number;
+  failed: number;
+  stoppedEarly: boolean; // No source answered and some were out of rate budget
+}
+
+type RefreshOutcome = "updated" | "unchanged" | "unanswered" | "rate_limited";
+
+export class PriceRefreshScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error("Price refresh error:", error));
+    }, INTERVAL_MS);
+    // Don't keep the process alive just for the refresh job
+    this.timer.unref();
+    console.log(`Price refresh scheduled every ${INTERVAL_MS / 60000} minutes`);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async runOnce(): Promise<PriceRefreshRunSummary> {
+    const summary: PriceRefreshRunSummary = { checked: 0, updated: 0, failed: 0, stoppedEarly: false };
+
+    // Skip the tick if the previous one is still working through its batch
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const staleProducts = await storage.getStaleProducts(new Date(Date.now() - MAX_AGE_MS), BATCH_SIZE);
+
+      for (const product of staleProducts) {
+        let outcome: RefreshOutcome;
+        try {
+          outcome = await this.refreshProduct(product);
+        } catch (error) {
+          console.error(`Price refresh error for product ${product.id}:`, error);
+          await this.postponeFailedProduct(product);
+          summary.failed++;
+          continue;
+        }
+
+        if (outcome === "rate_limited") {
+          summary.stoppedEarly = true;
+          break;
+        }
+        if (outcome === "unanswered") {
+          summary.failed++;
+          continue;
+        }
+        summary.checked++;
+        if (outcome === "updated") summary.updated++;
+      }
+
+      if (summary.checked > 0 || summary.failed > 0) {
+        console.log(`Price refresh: checked ${summary.checked}, updated ${summary.updated}, failed ${summary.failed}`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async refreshProduct(product: Product): Promise<RefreshOutcome> {
+    const { changes, providers, answered } = await productIngestService.refreshPrices(product, {
+      rateReserve: RATE_RESERVE
+    });
+
+    // Unanswered products stay stale and are tried again next tick; when that was down
+    // to rate limits, the rest of the batch would be too
+    if (!answered) {
+      return providers.some(p => p.status === "rate_limited") ? "rate_limited" : "unanswered";
+    }
+
+    return changes.some(c => c.change !== "unchanged") ? "updated" : "unchanged";
+  }
+
+  // A product whose refresh throws goes to the back of the stale queue, so it can't hold
+  // up every later batch
+  private async postponeFailedProduct(product: Product): Promise<void> {
+    try {
+      await storage.markPricesRefreshed(product.id);
+    } catch (error) {
+      console.error(`Price refresh error for product ${product.id}:`, error);
+    }
+  }
+}
+
+export const priceRefreshScheduler = new PriceRefreshScheduler();
@@ -1,7 +1,10 @@
 // Comprehensive pricing APIs integration for real merchant price comparison
 // This focuses specifically on pricing data from multiple retailers
 
-interface MerchantPrice {
+import { lookupDeadline, runWithDeadline, PROVIDER_TIMEOUT_MS } from "./barcodeApis";
+import type { ProviderOutcome } from "@shared/schema";
+
+export interface MerchantPrice {
   merchant: string;
   price: number;
   currency: string;
@@ -9,18 +12,18 @@ interface MerchantPrice {
   url?: string;
   shipping?: string;
   lastUpdated: Date;
+  source?: string; // Pricing API that reported the price, set by getAllMerchantPrices
 }
 
 interface PricingResponse {
   barcode: string;
   prices: MerchantPrice[];
   sources: string[];
-  success: boolean;
-  error?: string;
+  providers: ProviderOutcome[]; // One per configured pricing API, like the lookup providers
 }
 
 // Shopping.com API (now part of eBay) - Price comparison
-export async function fetchShoppingComPrices(upc: string): Promise<MerchantPrice[]> {
+export async function fetchShoppingComPrices(upc: string, signal?: AbortSignal): Promise<MerchantPrice[]> {
   const apiKey = process.env.SHOPPING_API_KEY;
   
   if (!apiKey) {
@@ -30,6 +33,7 @@ export async function fetchShoppingComPrices(upc: string): Promise<MerchantPrice
 
   try {
     const response = await fetch(`https://api.shopping.com/publisher/3.0/rest/GeneralSearch?apiKey=${apiKey}&trackingId=7000610&categoryId=0&productIdType=UPC&productId=${upc}&numItems=20&enableDeepCategories=0&showProductSpecs=1&showProductReviews=1&showAttributes=1&showMerchantRatings=1`, {
+      signal,
       headers: {
         'Accept': 'application/json'
       }
@@ -67,12 +71,12 @@ export async function fetchShoppingComPrices(upc: string): Promise<MerchantPrice
     return prices;
   } catch (error) {
     console.error(`Shopping API error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
 // Google Shopping API (via Custom Search)
-export async function fetchGoogleShoppingPrices(upc: string, productName?: string): Promise<MerchantPrice[]> {
+export async function fetchGoogleShoppingPrices(upc: string, productName?: string, signal?: AbortSignal): Promise<MerchantPrice[]> {
   const apiKey = process.env.GOOGLE_API_KEY;
   const cxId = process.env.GOOGLE_SHOPPING_CX;
   
@@ -84,6 +88,7 @@ export async function fetchGoogleShoppingPrices(upc: string, productName?: strin
   try {
     const searchQuery = productName ? `${productName} ${upc}` : upc;
     const response = await fetch(`https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${cxId}&q=${encodeURIComponent(searchQuery)}&searchType=image&imgType=product`, {
+      signal,
       headers: {
         'Accept': 'application/json'
       }
@@ -118,12 +123,12 @@ export async function fetchGoogleShoppingPrices(upc: string, productName?: strin
     return prices;
   } catch (error) {
     console.error(`Google Shopping API error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
 // PriceAPI.com - Multi-retailer price tracking
-export async function fetchPriceApiPrices(upc: string): Promise<MerchantPrice[]> {
+export async function fetchPriceApiPrices(upc: string, signal?: AbortSignal): Promise<MerchantPrice[]> {
   const apiKey = process.env.PRICEAPI_KEY;
   
   if (!apiKey) {
@@ -133,6 +138,7 @@ export async function fetchPriceApiPrices(upc: string): Promise<MerchantPrice[]>
 
   try {
     const response = await fetch(`https://api.priceapi.com/v2/jobs`, {
+      signal,
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -163,7 +169,7 @@ export async function fetchPriceApiPrices(upc: string): Promise<MerchantPrice[]>
     return prices;
   } catch (error) {
     console.error(`PriceAPI error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
@@ -198,7 +204,7 @@ export async function fetchFakeSpotPrices(upc: string): Promise<MerchantPrice[]>
 }
 
 // Keepa API - Amazon price tracking
-export async function fetchKeepaAmazonPrices(upc: string): Promise<MerchantPrice[]> {
+export async function fetchKeepaAmazonPrices(upc: string, signal?: AbortSignal): Promise<MerchantPrice[]> {
   const accessKey = process.env.KEEPA_API_KEY;
   
   if (!accessKey) {
@@ -208,6 +214,7 @@ export async function fetchKeepaAmazonPrices(upc: string): Promise<MerchantPrice
 
   try {
     const response = await fetch(`https://api.keepa.com/product?key=${accessKey}&domain=1&code=${upc}&stats=180&buybox=1&offers=20`, {
+      signal,
       headers: {
         'Accept': 'application/json'
       }
@@ -256,7 +263,7 @@ export async function fetchKeepaAmazonPrices(upc: string): Promise<MerchantPrice
     return prices;
   } catch (error) {
     console.error(`Keepa API error: ${(error as Error).message}`);
-    return [];
+    throw error;
   }
 }
 
@@ -280,81 +287,73 @@ export async function scrapeMajorRetailerPrices(upc: string, productName?: strin
   return prices;
 }
 
-// Main function to aggregate prices from all sources
-export async function getAllMerchantPrices(upc: string, productName?: string): Promise<PricingResponse> {
-  const allPrices: MerchantPrice[] = [];
-  const sources: string[] = [];
+interface MerchantPricingApi {
+  name: string;
+  envKeys: string[]; // Environment variables that must be set for the API to be queried
+  fetchPrices(upc: string, productName: string | undefined, signal: AbortSignal): Promise<MerchantPrice[]>;
+}
 
+const merchantPricingApis: MerchantPricingApi[] = [
+  { name: "Shopping.com", envKeys: ["SHOPPING_API_KEY"], fetchPrices: (upc, _name, signal) => fetchShoppingComPrices(upc, signal) },
+  { name: "Google Shopping", envKeys: ["GOOGLE_API_KEY", "GOOGLE_SHOPPING_CX"], fetchPrices: fetchGoogleShoppingPrices },
+  { name: "Keepa (Amazon)", envKeys: ["KEEPA_API_KEY"], fetchPrices: (upc, _name, signal) => fetchKeepaAmazonPrices(upc, signal) },
+  { name: "PriceAPI", envKeys: ["PRICEAPI_KEY"], fetchPrices: (upc, _name, signal) => fetchPriceApiPrices(upc, signal) }
+];
+
+async function runMerchantApi(
+  api: MerchantPricingApi,
+  upc: string,
+  productName: string | undefined,
+  deadline: number
+): Promise<{ outcome: ProviderOutcome; prices: MerchantPrice[] }> {
+  const startedAt = Date.now();
   try {
-    // Fetch from all available pricing APIs
-    const shoppingPrices = await fetchShoppingComPrices(upc);
-    if (shoppingPrices.length > 0) {
-      allPrices.push(...shoppingPrices);
-      sources.push('Shopping.com');
-    }
-
-    const googlePrices = await fetchGoogleShoppingPrices(upc, productName);
-    if (googlePrices.length > 0) {
-      allPrices.push(...googlePrices);
-      sources.push('Google Shopping');
-    }
-
-    const keepaPrices = await fetchKeepaAmazonPrices(upc);
-    if (keepaPrices.length > 0) {
-      allPrices.push(...keepaPrices);
-      sources.push('Keepa (Amazon)');
+    const { result, timedOutAfterMs } = await runWithDeadline(
+      signal => api.fetchPrices(upc, productName, signal),
+      PROVIDER_TIMEOUT_MS,
+      deadline
+    );
+    const durationMs = Date.now() - startedAt;
+
+    if (!result) {
+      return { outcome: { provider: api.name, status: "timeout", durationMs, error: `Timed out after ${timedOutAfterMs}ms` }, prices: [] };
     }
-
-    const priceApiPrices = await fetchPriceApiPrices(upc);
-    if (priceApiPrices.length > 0) {
-      allPrices.push(...priceApiPrices);
-      sources.push('PriceAPI');
-    }
-
-    // Remove duplicates and sort by price
-    const uniquePrices = allPrices.filter((price, index, self) => 
-      index === self.findIndex(p => p.merchant === price.merchant)
-    ).sort((a, b) => a.price - b.price);
-
     return {
-      barcode: upc,
-      prices: uniquePrices,
-      sources,
-      success: true
+      outcome: { provider: api.name, status: result.length > 0 ? "success" : "not_found", durationMs },
+      prices: result.map(price => ({ ...price, source: api.name }))
     };
-
   } catch (error) {
     return {
-      barcode: upc,
-      prices: [],
-      sources,
-      success: false,
-      error: (error as Error).message
+      outcome: { provider: api.name, status: "error", durationMs: Date.now() - startedAt, error: (error as Error).message },
+      prices: []
     };
   }
 }
 
-// Price comparison utilities
-export function findLowestPrice(prices: MerchantPrice[]): MerchantPrice | null {
-  if (prices.length === 0) return null;
-  return prices.reduce((lowest, current) => 
-    current.price < lowest.price ? current : lowest
-  );
-}
-
-export function findHighestPrice(prices: MerchantPrice[]): MerchantPrice | null {
-  if (prices.length === 0) return null;
-  return prices.reduce((highest, current) => 
-    current.price > highest.price ? current : highest
-  );
-}
-
-export function calculatePriceSavings(prices: MerchantPrice[]): number {
-  const lowest = findLowestPrice(prices);
-  const highest = findHighestPrice(prices);
-  
-  if (!lowest || !highest) return 0;
-  return highest.price - lowest.price;
+// Queries every configured pricing API concurrently, each under the lookup providers'
+// per-provider timeout and within `deadline` (the lookup budget by default)
+export async function getAllMerchantPrices(
+  upc: string,
+  productName?: string,
+  deadline = lookupDeadline()
+): Promise<PricingResponse> {
+  const configured = merchantPricingApis.filter(api => api.envKeys.every(key => !!process.env[key]));
+  const runs = await Promise.all(configured.map(api => runMerchantApi(api, upc, productName, deadline)));
+
+  const allPrices = runs.flatMap(run => run.prices);
+  const sources = runs.filter(run => run.outcome.status === "success").map(run => run.outcome.provider);
+
+  // Remove duplicates and sort by price
+  const uniquePrices = allPrices.filter((price, index, self) =>
+    index === self.findIndex(p => p.merchant === price.merchant)
+  ).sort((a, b) => a.price - b.price);
+
+  return {
+    barcode: upc,
+    prices: uniquePrices,
+    sources,
+    providers: runs.map(run => run.outcome)
+  };
 }
 
 export function getAveragePrice(prices: MerchantPrice[]): number {
@@ -0,0 +1,173 @@
+import { storage, type RetailerPriceInput } from "./storage";
+import { fetchProductData, lookupDeadline, type PriceInfo } from "./barcodeApis";
+import { getAllMerchantPrices } from "./pricingApis";
+import {
+  normalizeOffers,
+  offerFromStoredPrice,
+  mergeOffers,
+  bestOfferPrice,
+  offerSavings,
+  toRetailerPriceInput,
+  withConvertedPrices
+} from "./offers";
+import { exchangeRateService } from "./exchangeRates";
+import { toLookupCode } from "@shared/gtin";
+import type { LandedCostOptions } from "@shared/landedCost";
+import type {
+  InsertProduct,
+  LookupReport,
+  PriceChange,
+  Product,
+  ProductWithPrices,
+  ProviderOutcome,
+  ScanResult
+} from "@shared/schema";
+
+// Single path for turning upstream lookup results into stored products and prices.
+// Both /api/scan and /api/products/:barcode go through here.
+
+export interface IngestResult {
+  product?: ProductWithPrices;
+  lookup?: LookupReport; // Present when upstream providers were queried
+}
+
+export interface PriceRefreshResult {
+  changes: PriceChange[];
+  sources: string[];
+  providers: ProviderOutcome[]; // Lookup providers, then merchant pricing APIs
+  answered: boolean; // At least one source answered, so the product was marked refreshed
+}
+
+export interface ScanResultOptions {
+  displayCurrency: string;
+  landedCost?: LandedCostOptions; // Region and memberships used for shipping and tax
+}
+
+export class ProductIngestService {
+
+  // Returns the stored product, fetching and storing it first if it is unknown,
+  // and backfilling prices for a known product that has none
+  async getOrIngestProduct(
+    barcode: string,
+    lookupCode: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<IngestResult> {
+    const existing = await storage.getProductByBarcode(barcode);
+    if (existing && existing.prices.length > 0) {
+      return { product: existing };
+    }
+
+    console.log(`Fetching product data from APIs for barcode: ${barcode}`);
+    const deadline = lookupDeadline();
+    const apiResult = await fetchProductData(lookupCode, { ...options, deadline });
+    const lookup: LookupReport = { sources: apiResult.sources, providers: apiResult.providers };
+
+    // Merchant APIs only make sense once we know what the product is; they get what is
+    // left of the lookup budget
+    const productName = existing?.name ?? apiResult.product?.name;
+    const { offers, sources, providers } = productName
+      ? await this.collectOffers(lookupCode, apiResult.prices, productName, deadline)
+      : { offers: [], sources: [], providers: [] };
+    lookup.sources.push(...sources);
+    lookup.providers.push(...providers);
+
+    if (existing) {
+      if (offers.length > 0) {
+        console.log(`Backfilling ${offers.length} prices for existing product ${existing.id}`);
+        await storage.addProductPrices(existing.id, offers);
+      }
+      await storage.markPricesRefreshed(existing.id);
+      return { product: await storage.getProductByBarcode(barcode), lookup };
+    }
+
+    if (!apiResult.product) {
+      return { lookup };
+    }
+
+    const productData: InsertProduct = {
+      barcode,
+      name: apiResult.product.name,
+      brand: apiResult.product.brand || null,
+      description: apiResult.product.description || null,
+      imageUrl: apiResult.product.imageUrl || null,
+      ecoScore: null,
+      carbonFootprint: null,
+      recyclingInfo: null,
+      sustainabilityCertifications: null,
+      packagingType: null,
+      isEcoFriendly: null,
+      dataSources: apiResult.provenance
+    };
+
+    try {
+      await storage.createProductWithPrices(productData, offers);
+    } catch (error) {
+      // A concurrent request may have stored the same barcode first
+      const stored = await storage.getProductByBarcode(barcode);
+      if (!stored) throw error;
+      return { product: stored, lookup };
+    }
+
+    return { product: await storage.getProductByBarcode(barcode), lookup };
+  }
+
+  // Re-queries every pricing source for a known product and upserts the results.
+  // The product only counts as refreshed when some source answered; if every one failed,
+  // timed out or was rate limited its prices stay stale. `rateReserve` is passed on to
+  // the lookup providers' rate limits.
+  async refreshPrices(product: Product, options: { rateReserve?: number } = {}): Promise<PriceRefreshResult> {
+    const lookupCode = toLookupCode(product.barcode);
+    const deadline = lookupDeadline();
+    const lookupResult = await fetchProductData(lookupCode, {
+      refresh: true,
+      pricesOnly: true,
+      rateReserve: options.rateReserve,
+      deadline
+    });
+    const { offers, sources, providers } = await this.collectOffers(lookupCode, lookupResult.prices, product.name, deadline);
+    const allProviders = [...lookupResult.providers, ...providers];
+    const answered = allProviders.some(p => p.status === "success" || p.status === "not_found");
+
+    const changes = offers.length > 0 ? await storage.upsertProductPrices(product.id, offers) : [];
+    if (answered) {
+      await storage.markPricesRefreshed(product.id);
+    }
+
+    return { changes, sources: [...lookupResult.sources, ...sources], providers: allProviders, answered };
+  }
+
+  // Combines provider prices with merchant pricing API results, one offer per retailer
+  private async collectOffers(
+    lookupCode: string,
+    providerPrices: PriceInfo[],
+    productName: string,
+    deadline: number
+  ): Promise<{ offers: RetailerPriceInput[]; sources: string[]; providers: ProviderOutcome[] }> {
+    const merchantResult = await getAllMerchantPrices(lookupCode, productName, deadline);
+    const offers = normalizeOffers(providerPrices, merchantResult.prices);
+    return { offers: offers.map(toRetailerPriceInput), sources: merchantResult.sources, providers: merchantResult.providers };
+  }
+
+  // Response body for the scan and product routes, with savings computed from stored
+  // offers converted to the display currency
+  scanResultFor(product: ProductWithPrices, options: ScanResultOptions, lookup?: LookupReport): ScanResult {
+    const { displayCurrency } = options;
+    const offers = withConvertedPrices(
+      mergeOffers(product.prices.map(offerFromStoredPrice)),
+      displayCurrency,
+      exchangeRateService.getRates(),
+      options.landedCost
+    );
+
+    return {
+      product,
+      bestPrice: bestOfferPrice(offers),
+      offers,
+      displayCurrency,
+      savings: offerSavings(offers, displayCurrency),
+      lookup
+    };
+  }
+}
+
+export const productIngestService = new ProductIngestService();
@@ -1,20 +1,25 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { 
-  fetchProductData, 
-  findBestPrice, 
-  calculateSavings 
-} from "./barcodeApis";
-import { 
-  getAllMerchantPrices, 
-  findLowestPrice, 
-  calculatePriceSavings 
-} from "./pricingApis";
+import { productIngestService } from "./productIngest";
+import { buildPriceHistorySeries, PRICE_HISTORY_INTERVALS } from "./priceHistory";
+import { exchangeRateService, BASE_CURRENCY } from "./exchangeRates";
+import { monetizationService, SubscriptionChangeError } from "./monetization";
+import { planCatalog } from "./plans";
+import { notificationService } from "./notifications";
+import { setupAuth, isAuthenticated, dataOwner, publicUser } from "./auth";
+import { countScan, scanLimitFor, sendScanLimitReached } from "./scanQuota";
+import { paymentService, CheckoutError, FakePaymentGateway, RefundError, WebhookVerificationError } from "./payments";
+import { parseClickId, postbacksEnabled, verifyPostback, PostbackVerificationError } from "./affiliateTracking";
 import OpenAI from "openai";
+import { parseGtin, toLookupCode } from "@shared/gtin";
+import { parseAmount, parseMoney } from "@shared/money";
+import { MEMBERSHIPS, type LandedCostOptions } from "@shared/landedCost";
+import { shoppingListItemUpdateSchema, userPreferencesSchema, type PriceAlert, type PriceHistory, type PriceHistoryInterval } from "@shared/schema";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -44,153 +49,124 @@ async function generateShoppingAssistantResponse(message: string): Promise<strin
   }
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // User authentication endpoint - returns null when no user is authenticated
-  app.get('/api/auth/user', async (req: any, res) => {
-    try {
-      // Return null to indicate no user is currently authenticated
-      res.json(null);
-    } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+// Shopping list price overrides arrive as typed text, e.g. "4.99" or "€3,50"
+function unitPriceColumns(unitPrice: string | null | undefined) {
+  const parsed = parseMoney(unitPrice);
+  return { unitPriceMinor: parsed?.amountMinor ?? null, currency: parsed?.currency ?? "USD" };
+}
+
+// ?currency=EUR picks the display currency; otherwise signed-in users get their preferred
+// currency and everyone else the base currency. null means the requested currency has no
+// configured exchange rate
+function displayCurrencyFor(req: Request): string | null {
+  const requested = req.query.currency;
+  if (requested === undefined) {
+    const preferred = req.isAuthenticated() ? req.user.preferredCurrency : null;
+    return preferred && exchangeRateService.isSupported(preferred) ? preferred : BASE_CURRENCY;
+  }
+  if (typeof requested !== "string") return null;
+  const currency = requested.toUpperCase();
+  return exchangeRateService.isSupported(currency) ? currency : null;
+}
+
+// ?region=CA adds that state's sales tax; ?memberships=amazon_prime,walmart_plus
+// applies member free shipping. Signed-in users default to their saved preferences.
+// Unknown values are ignored.
+function landedCostOptionsFor(req: Request): LandedCostOptions {
+  const saved = req.isAuthenticated() ? req.user : null;
+  const region = typeof req.query.region === "string"
+    ? req.query.region.toUpperCase()
+    : saved?.region ?? null;
+  const memberships = typeof req.query.memberships === "string"
+    ? req.query.memberships.split(",").map(m => m.trim())
+    : saved?.memberships ?? [];
+  return { region, memberships: memberships.filter(m => MEMBERSHIPS.includes(m)) };
+}
+
+// Admin endpoints are disabled unless ADMIN_API_TOKEN is set; callers send it in x-admin-token
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token || req.get("x-admin-token") !== token) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+}
+
+// Price alerts are a paid feature for signed-in users
+async function requirePriceAlertAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
-  });
+    if (!(await monetizationService.hasFeatureAccess(req.user.id, "price_alerts"))) {
+      return res.status(403).json({ message: "Price alerts require a Premium or Business plan" });
+    }
+    next();
+  } catch (error) {
+    console.error("Price alert access error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  await setupAuth(app);
 
   // Get product by barcode (for browsing - includes scan history tracking)
+  // ?refresh=true skips cached upstream lookups
   app.get("/api/products/:barcode", async (req, res) => {
     try {
-      const { barcode } = req.params;
+      const parsed = parseGtin(req.params.barcode);
+      if (!parsed.valid) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      // Products are stored under their GTIN-14; upstream APIs get the short form
+      const displayCurrency = displayCurrencyFor(req);
+      if (!displayCurrency) {
+        return res.status(400).json({ message: "Unsupported currency" });
+      }
+
+      const barcode = parsed.gtin14;
       const { addToHistory } = req.query;
-      
-      let product = await storage.getProductByBarcode(barcode);
-      
-      if (!product) {
-        // Try to fetch from external APIs if not found
-        console.log(`Fetching product data from APIs for barcode: ${barcode}`);
-        const apiResult = await fetchProductData(barcode);
-        
-        if (apiResult.product) {
-          const productData = {
-            barcode,
-            name: apiResult.product.name,
-            brand: apiResult.product.brand || null,
-            description: apiResult.product.description || null,
-            imageUrl: apiResult.product.imageUrl || null,
-            ecoScore: null,
-            carbonFootprint: null,
-            recyclingInfo: null,
-            sustainabilityCertifications: null,
-            packagingType: null,
-            isEcoFriendly: null
-          };
-
-          const createdProduct = await storage.createProduct(productData);
-          product = { ...createdProduct, prices: [] };
-          
-          // Store pricing data from API results
-          if (apiResult.prices && apiResult.prices.length > 0) {
-            console.log(`Processing ${apiResult.prices.length} prices for storage`);
-            for (const priceInfo of apiResult.prices) {
-              console.log(`Processing price:`, priceInfo);
-              let retailers = await storage.getAllRetailers();
-              let retailer = retailers.find(r => r.name === priceInfo.retailer);
-              
-              if (!retailer) {
-                console.log(`Creating new retailer: ${priceInfo.retailer}`);
-                retailer = await storage.createRetailer({
-                  name: priceInfo.retailer,
-                  logo: priceInfo.retailer.charAt(0),
-                  affiliateProgram: null,
-                  affiliateCommissionRate: null,
-                  affiliateBaseUrl: null
-                });
-                console.log(`Created retailer:`, retailer);
-              }
-
-              console.log(`Creating price record for product ${createdProduct.id}, retailer ${retailer.id}`);
-              await storage.createPrice({
-                productId: createdProduct.id,
-                retailerId: retailer.id,
-                price: priceInfo.price,
-                stock: priceInfo.availability,
-                url: priceInfo.url || null
-              });
-            }
-          }
-          
-          // Refresh product with prices
-          product = await storage.getProductByBarcode(barcode);
-        }
-      } else if (product.prices.length === 0) {
-        // Product exists but has no prices, try to fetch and add them
-        console.log(`Product exists but has no prices, fetching pricing data for barcode: ${barcode}`);
-        const apiResult = await fetchProductData(barcode);
-        
-        if (apiResult.prices && apiResult.prices.length > 0) {
-          console.log(`Processing ${apiResult.prices.length} prices for existing product`);
-          for (const priceInfo of apiResult.prices) {
-            console.log(`Processing price:`, priceInfo);
-            let retailers = await storage.getAllRetailers();
-            let retailer = retailers.find(r => r.name === priceInfo.retailer);
-            
-            if (!retailer) {
-              console.log(`Creating new retailer: ${priceInfo.retailer}`);
-              retailer = await storage.createRetailer({
-                name: priceInfo.retailer,
-                logo: priceInfo.retailer.charAt(0),
-                affiliateProgram: null,
-                affiliateCommissionRate: null,
-                affiliateBaseUrl: null
-              });
-              console.log(`Created retailer:`, retailer);
-            }
-
-            console.log(`Creating price record for product ${product.id}, retailer ${retailer.id}`);
-            await storage.createPrice({
-              productId: product.id,
-              retailerId: retailer.id,
-              price: priceInfo.price,
-              stock: priceInfo.availability,
-              url: priceInfo.url || null
-            });
-          }
-          product = await storage.getProductByBarcode(barcode);
-        }
+      const refresh = req.query.refresh === 'true';
+
+      // Refreshed lookups skip the cache, so they count even for a product seen today
+      const countedBarcode = refresh ? undefined : barcode;
+      const scanLimit = await scanLimitFor(req, countedBarcode);
+      if (!scanLimit.canScan) {
+        return sendScanLimitReached(res, scanLimit);
       }
+
+      const { product, lookup } = await productIngestService.getOrIngestProduct(barcode, toLookupCode(barcode), { refresh });
       
       if (!product) {
         return res.status(404).json({ 
+          lookup,
           message: "Product not found",
           suggestion: "Try scanning this product to add it to our database"
         });
       }
 
+      if (!(await countScan(req, countedBarcode))) {
+        return sendScanLimitReached(res, await scanLimitFor(req));
+      }
+
+      const result = productIngestService.scanResultFor(
+        product,
+        { displayCurrency, landedCost: landedCostOptionsFor(req) },
+        lookup
+      );
+
       // Add to scan history if requested (for manual barcode entries)
       if (addToHistory === 'true') {
-        await storage.addScanHistory({
+        await storage.addScanHistory(dataOwner(req), {
           barcode,
-          productName: product.name
+          productName: product.name,
+          bestPrice: result.bestPrice
         });
       }
 
-      let bestPrice = "N/A";
-      if (product.prices && product.prices.length > 0) {
-        const bestPriceInfo = findBestPrice(product.prices.map(p => ({
-          retailer: p.retailer.name,
-          price: p.price,
-          currency: "USD",
-          availability: p.stock || "Available"
-        })));
-        
-        if (bestPriceInfo) {
-          bestPrice = bestPriceInfo.price;
-        }
-      }
-
-      res.json({
-        product,
-        bestPrice
-      });
+      res.json(result);
     } catch (error) {
       console.error("Get product error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -200,105 +176,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Barcode scanning endpoint (adds to history)
   app.post("/api/scan", async (req, res) => {
     try {
-      const { barcode } = req.body;
-      
-      if (!barcode) {
-        return res.status(400).json({ message: "Barcode is required" });
+      const parsed = parseGtin(req.body.barcode);
+      if (!parsed.valid) {
+        return res.status(400).json({ message: parsed.error });
       }
 
-      let product = await storage.getProductByBarcode(barcode);
-      
-      if (!product) {
-        console.log(`Fetching product data from APIs for barcode: ${barcode}`);
-        const apiResult = await fetchProductData(barcode);
-        
-        if (!apiResult.product) {
-          return res.status(404).json({ 
-            message: "Product not found in any database",
-            suggestion: "This product may not be in our supported databases. Try scanning a different product or check if the barcode is clear and readable."
-          });
-        }
-        
-        const productData = {
-          barcode,
-          name: apiResult.product.name,
-          brand: apiResult.product.brand || null,
-          description: apiResult.product.description || null,
-          imageUrl: apiResult.product.imageUrl || null,
-          ecoScore: null,
-          carbonFootprint: null,
-          recyclingInfo: null,
-          sustainabilityCertifications: null,
-          packagingType: null,
-          isEcoFriendly: null
-        };
-
-        const createdProduct = await storage.createProduct(productData);
-        product = { ...createdProduct, prices: [] };
-        
-        if (apiResult.prices && apiResult.prices.length > 0) {
-          console.log(`Found ${apiResult.prices.length} merchant offers from UPC Item DB`);
-          for (const priceInfo of apiResult.prices) {
-            let retailers = await storage.getAllRetailers();
-            let retailer = retailers.find(r => r.name === priceInfo.retailer);
-            
-            if (!retailer) {
-              retailer = await storage.createRetailer({
-                name: priceInfo.retailer,
-                logo: priceInfo.retailer.charAt(0),
-                affiliateProgram: null,
-                affiliateCommissionRate: null,
-                affiliateBaseUrl: null
-              });
-            }
-
-            await storage.createPrice({
-              productId: product.id,
-              retailerId: retailer.id,
-              price: priceInfo.price,
-              stock: priceInfo.availability,
-              url: priceInfo.url || null
-            });
-          }
-
-          product = await storage.getProductByBarcode(barcode);
-        }
+      const displayCurrency = displayCurrencyFor(req);
+      if (!displayCurrency) {
+        return res.status(400).json({ message: "Unsupported currency" });
       }
+
+      const barcode = parsed.gtin14;
+      const refresh = req.query.refresh === 'true';
+
+      const countedBarcode = refresh ? undefined : barcode;
+      const scanLimit = await scanLimitFor(req, countedBarcode);
+      if (!scanLimit.canScan) {
+        return sendScanLimitReached(res, scanLimit);
+      }
+
+      const { product, lookup } = await productIngestService.getOrIngestProduct(barcode, toLookupCode(barcode), { refresh });
       
       if (!product) {
         return res.status(404).json({ 
-          message: "Product not found in any database"
+          lookup,
+          message: "Product not found in any database",
+          suggestion: "This product may not be in our supported databases. Try scanning a different product or check if the barcode is clear and readable."
         });
       }
 
+      if (!(await countScan(req, countedBarcode))) {
+        return sendScanLimitReached(res, await scanLimitFor(req));
+      }
+
+      const result = productIngestService.scanResultFor(
+        product,
+        { displayCurrency, landedCost: landedCostOptionsFor(req) },
+        lookup
+      );
+
       // Add to scan history when scanning from scanner page
-      await storage.addScanHistory({
+      await storage.addScanHistory(dataOwner(req), {
         barcode,
-        productName: product.name
+        productName: product.name,
+        bestPrice: result.bestPrice
       });
 
+      res.json(result);
+    } catch (error) {
+      console.error("Scan error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
+  // Per-retailer price series for charts, bucketed by day or week
+  app.get("/api/products/:barcode/price-history", async (req, res) => {
+    try {
+      const parsed = parseGtin(req.params.barcode);
+      if (!parsed.valid) {
+        return res.status(400).json({ message: parsed.error });
+      }
 
-      let bestPrice = "N/A";
-      if (product.prices && product.prices.length > 0) {
-        const bestPriceInfo = findBestPrice(product.prices.map(p => ({
-          retailer: p.retailer.name,
-          price: p.price,
-          currency: "USD",
-          availability: p.stock || "Available"
-        })));
-        
-        if (bestPriceInfo) {
-          bestPrice = bestPriceInfo.price;
-        }
+      const interval = (req.query.interval || "day") as PriceHistoryInterval;
+      if (!PRICE_HISTORY_INTERVALS.includes(interval)) {
+        return res.status(400).json({ message: "interval must be 'day' or 'week'" });
+      }
+
+      const days = req.query.days ? parseInt(req.query.days as string, 10) : 90;
+      if (!Number.isInteger(days) || days < 1 || days > 730) {
+        return res.status(400).json({ message: "days must be between 1 and 730" });
+      }
+
+      const product = await storage.getProductByBarcode(parsed.gtin14);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      const observations = await storage.getPriceObservations(product.id, from);
+
+      const history: PriceHistory = {
+        barcode: product.barcode,
+        interval,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        series: buildPriceHistorySeries(observations, interval)
+      };
+      res.json(history);
+    } catch (error) {
+      console.error("Price history error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Re-fetch merchant prices for a known product and report what changed per retailer
+  app.post("/api/products/:barcode/refresh-prices", async (req, res) => {
+    try {
+      const parsed = parseGtin(req.params.barcode);
+      if (!parsed.valid) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const product = await storage.getProductByBarcode(parsed.gtin14);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
+      // A refresh always goes upstream, so it counts every time
+      const scanLimit = await scanLimitFor(req);
+      if (!scanLimit.canScan) {
+        return sendScanLimitReached(res, scanLimit);
+      }
+
+      const { changes, sources, answered } = await productIngestService.refreshPrices(product);
+      if (answered && !(await countScan(req))) {
+        return sendScanLimitReached(res, await scanLimitFor(req));
+      }
+      const added = changes.filter(c => c.change === "added").length;
+      const updated = changes.filter(c => c.change === "updated").length;
+
+      const message = changes.length === 0
+        ? "No merchant prices found"
+        : `Checked ${changes.length} retailers: ${added} new, ${updated} changed`;
+
       res.json({
-        product,
-        bestPrice
+        message,
+        changes,
+        sources,
+        product: await storage.getProductByBarcode(parsed.gtin14)
       });
     } catch (error) {
-      console.error("Scan error:", error);
+      console.error("Refresh prices error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Current exchange rates, as units of each currency per one unit of the base
+  app.get("/api/exchange-rates", async (req, res) => {
+    try {
+      res.json(exchangeRateService.getRates());
+    } catch (error) {
+      console.error("Get exchange rates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replace the exchange-rate table, e.g. from a nightly job
+  app.put("/api/admin/exchange-rates", requireAdminToken, async (req, res) => {
+    try {
+      const exchangeRates = await exchangeRateService.update(req.body, "admin");
+      res.json(exchangeRates);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid exchange rates", errors: error.errors });
+      }
+      console.error("Update exchange rates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Change the signed-in user's settings, e.g. { "preferredCurrency": "EUR", "region": "CA",
+  // "memberships": ["amazon_prime"] }
+  app.patch("/api/user/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const preferences = userPreferencesSchema.parse(req.body);
+      if (preferences.preferredCurrency && !exchangeRateService.isSupported(preferences.preferredCurrency)) {
+        return res.status(400).json({ message: "Unsupported currency" });
+      }
+      const user = await storage.updateUserPreferences(req.user!.id, preferences);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(publicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      }
+      console.error("Update preferences error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -306,7 +361,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get scan history
   app.get("/api/history", async (req, res) => {
     try {
-      const history = await storage.getScanHistory();
+      const history = await storage.getScanHistory(dataOwner(req));
       res.json(history);
     } catch (error) {
       console.error("Get history error:", error);
@@ -317,7 +372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Clear scan history
   app.delete("/api/history", async (req, res) => {
     try {
-      await storage.clearScanHistory();
+      await storage.clearScanHistory(dataOwner(req));
       res.json({ message: "History cleared" });
     } catch (error) {
       console.error("Clear history error:", error);
@@ -328,7 +383,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get favorites
   app.get("/api/favorites", async (req, res) => {
     try {
-      const favorites = await storage.getFavorites();
+      const favorites = await storage.getFavorites(dataOwner(req));
       res.json(favorites);
     } catch (error) {
       console.error("Get favorites error:", error);
@@ -340,7 +395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/favorites", async (req, res) => {
     try {
       const { productId } = req.body;
-      const favorite = await storage.addFavorite({ productId });
+      const favorite = await storage.addFavorite(dataOwner(req), { productId });
       res.json(favorite);
     } catch (error) {
       console.error("Add favorite error:", error);
@@ -352,7 +407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/favorites/:productId", async (req, res) => {
     try {
       const productId = parseInt(req.params.productId);
-      await storage.removeFavorite(productId);
+      await storage.removeFavorite(dataOwner(req), productId);
       res.json({ message: "Removed from favorites" });
     } catch (error) {
       console.error("Remove favorite error:", error);
@@ -363,7 +418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get shopping list
   app.get("/api/shopping-list", async (req, res) => {
     try {
-      const shoppingList = await storage.getShoppingList();
+      const shoppingList = await storage.getShoppingList(dataOwner(req));
       res.json(shoppingList);
     } catch (error) {
       console.error("Get shopping list error:", error);
@@ -375,12 +430,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/shopping-list", async (req, res) => {
     try {
       const { productId, quantity, unitPrice } = req.body;
-      const item = await storage.addShoppingListItem({
+      const item = await storage.addShoppingListItem(dataOwner(req), {
         productId,
         quantity: quantity || 1,
-        unitPrice: unitPrice || null,
-        completed: false,
-        userId: null
+        ...unitPriceColumns(unitPrice),
+        completed: false
       });
       res.json(item);
     } catch (error) {
@@ -393,10 +447,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/shopping-list/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const item = await storage.updateShoppingListItem(id, updates);
+      const { unitPrice, ...updates } = shoppingListItemUpdateSchema.parse(req.body);
+      const item = await storage.updateShoppingListItem(dataOwner(req), id, {
+        ...updates,
+        ...(unitPrice !== undefined ? unitPriceColumns(unitPrice) : {})
+      });
+      if (!item) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
       res.json(item);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid shopping list update", errors: error.errors });
+      }
       console.error("Update shopping list error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -406,7 +469,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/shopping-list/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.removeShoppingListItem(id);
+      await storage.removeShoppingListItem(dataOwner(req), id);
       res.json({ message: "Removed from shopping list" });
     } catch (error) {
       console.error("Remove from shopping list error:", error);
@@ -414,17 +477,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Subscription status - app is now completely free
-  app.get("/api/subscription/status", async (req: any, res) => {
+  // List the user's price alerts with their products
+  app.get("/api/price-alerts", requirePriceAlertAccess, async (req, res) => {
     try {
-      res.json({
-        tier: "free",
-        expiresAt: null,
-        scanLimits: {
-          canScan: true,
-          scansRemaining: 999999,
-          resetTime: null
+      const alerts = await storage.getPriceAlerts(req.user!.id);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get price alerts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create a price alert; targetPrice is typed text such as "19.99" or "€15"
+  app.post("/api/price-alerts", requirePriceAlertAccess, async (req, res) => {
+    try {
+      const { productId, targetPrice } = req.body;
+      const target = parseMoney(targetPrice);
+      if (!target) {
+        return res.status(400).json({ message: "targetPrice is required" });
+      }
+      if (target.amountMinor <= 0) {
+        return res.status(400).json({ message: "targetPrice must be greater than zero" });
+      }
+
+      const product = await storage.getProductById(parseInt(productId));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const alert = await storage.createPriceAlert({
+        userId: req.user!.id,
+        productId: product.id,
+        targetPriceMinor: target.amountMinor,
+        currency: target.currency,
+        isActive: true
+      });
+      res.json(alert);
+    } catch (error) {
+      console.error("Create price alert error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Alerts that fired since ?since= (ISO timestamp, default 30 days ago), newest first
+  app.get("/api/price-alerts/events", requirePriceAlertAccess, async (req, res) => {
+    try {
+      const since = typeof req.query.since === "string"
+        ? new Date(req.query.since)
+        : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime())) {
+        return res.status(400).json({ message: "since must be an ISO timestamp" });
+      }
+
+      const events = await storage.getPriceAlertEvents(req.user!.id, since);
+      res.json(events);
+    } catch (error) {
+      console.error("Get price alert events error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Change an alert's target or pause it
+  app.patch("/api/price-alerts/:id", requirePriceAlertAccess, async (req, res) => {
+    try {
+      const alert = await storage.getPriceAlert(parseInt(req.params.id));
+      if (!alert || alert.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Price alert not found" });
+      }
+
+      const { targetPrice, isActive } = req.body;
+      const updates: Partial<PriceAlert> = {};
+      if (targetPrice !== undefined) {
+        const target = parseMoney(targetPrice);
+        if (!target) {
+          return res.status(400).json({ message: "Invalid targetPrice" });
+        }
+        if (target.amountMinor <= 0) {
+          return res.status(400).json({ message: "targetPrice must be greater than zero" });
         }
+        // A new target re-arms the alert
+        Object.assign(updates, {
+          targetPriceMinor: target.amountMinor,
+          currency: target.currency,
+          lastTriggeredPriceMinor: null
+        });
+      }
+      if (typeof isActive === "boolean") {
+        updates.isActive = isActive;
+      }
+
+      const updatedAlert = await storage.updatePriceAlert(alert.id, updates);
+      res.json(updatedAlert);
+    } catch (error) {
+      console.error("Update price alert error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete a price alert and its events
+  app.delete("/api/price-alerts/:id", requirePriceAlertAccess, async (req, res) => {
+    try {
+      const alert = await storage.getPriceAlert(parseInt(req.params.id));
+      if (!alert || alert.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Price alert not found" });
+      }
+
+      await storage.deletePriceAlert(alert.id);
+      res.json({ message: "Price alert deleted" });
+    } catch (error) {
+      console.error("Delete price alert error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // In-app notification inbox, newest first
+  app.get("/api/notifications", isAuthenticated, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const inbox = await storage.getInboxNotifications(req.user!.id, limit);
+      res.json(inbox);
+    } catch (error) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(parseInt(req.params.id), req.user!.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // VAPID key for PushManager.subscribe(); publicKey is null when web push is not configured
+  app.get("/api/notifications/push/public-key", async (req, res) => {
+    res.json({ publicKey: notificationService.pushPublicKey() });
+  });
+
+  // Register a browser's PushSubscription (as returned by subscription.toJSON())
+  app.post("/api/notifications/push/subscriptions", isAuthenticated, async (req, res) => {
+    try {
+      const { endpoint, keys } = req.body.subscription || {};
+      if (typeof endpoint !== "string" || !keys?.p256dh || !keys?.auth) {
+        return res.status(400).json({ message: "subscription with endpoint and keys is required" });
+      }
+
+      const subscription = await storage.upsertPushSubscription({
+        userId: req.user!.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth
+      });
+      res.json(subscription);
+    } catch (error) {
+      console.error("Add push subscription error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/notifications/push/subscriptions", isAuthenticated, async (req, res) => {
+    try {
+      const { endpoint } = req.body;
+      if (typeof endpoint !== "string") {
+        return res.status(400).json({ message: "endpoint is required" });
+      }
+
+      const subscriptions = await storage.getPushSubscriptions(req.user!.id);
+      if (!subscriptions.some(s => s.endpoint === endpoint)) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+
+      await storage.removePushSubscription(endpoint);
+      res.json({ message: "Push subscription removed" });
+    } catch (error) {
+      console.error("Remove push subscription error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Plans that can be subscribed to, in display order
+  app.get("/api/plans", (_req, res) => {
+    res.json(planCatalog.listAvailable());
+  });
+
+  // Create or update a plan; fields left out keep their current values. Set active: false to retire one
+  app.put("/api/admin/plans/:id", requireAdminToken, async (req, res) => {
+    try {
+      const plan = await planCatalog.save(req.params.id, req.body);
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid plan", errors: error.errors });
+      }
+      console.error("Save plan error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Plan and today's scan allowance; anonymous visitors are on the free plan
+  app.get("/api/subscription/status", async (req, res) => {
+    try {
+      const subscription = req.isAuthenticated()
+        ? await monetizationService.checkSubscriptionStatus(req.user.id)
+        : undefined;
+
+      const tier = subscription?.tier ?? "free";
+      res.json({
+        tier,
+        entitlements: planCatalog.planFor(tier)?.entitlements ?? [],
+        expiresAt: subscription?.expiresAt ?? null,
+        autoRenew: subscription?.autoRenew ?? false,
+        renewalPlan: subscription?.renewalPlan ?? null,
+        pastDue: subscription?.pastDue ?? false,
+        scanLimits: await scanLimitFor(req)
       });
     } catch (error) {
       console.error("Get subscription status error:", error);
@@ -432,10 +703,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a paid plan or switch between paid plans. When a payment needs approval the
+  // response has a paymentUrl to send the payer to; otherwise the change is already made.
+  app.post("/api/subscription/subscribe", isAuthenticated, async (req, res) => {
+    try {
+      if (!paymentService.gateway) {
+        return res.status(503).json({ message: "Payments are not available" });
+      }
+
+      res.json(await paymentService.subscribe(req.user!.id, req.body.planId));
+    } catch (error) {
+      if (error instanceof CheckoutError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Subscribe error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Stop renewing; the plan stays active until it expires
+  app.post("/api/subscription/cancel", isAuthenticated, async (req, res) => {
+    try {
+      await monetizationService.cancelSubscription(req.user!.id);
+      res.json({ message: "Subscription cancelled" });
+    } catch (error) {
+      if (error instanceof SubscriptionChangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Cancel subscription error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/subscription/resume", isAuthenticated, async (req, res) => {
+    try {
+      await monetizationService.resumeSubscription(req.user!.id);
+      res.json({ message: "Subscription resumed" });
+    } catch (error) {
+      if (error instanceof SubscriptionChangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Resume subscription error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Full refund of a completed payment; a refund for the current period ends the plan
+  app.post("/api/admin/subscription-payments/:id/refund", requireAdminToken, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid payment id" });
+      }
+
+      res.json(await paymentService.refund(id));
+    } catch (error) {
+      if (error instanceof RefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Refund subscription payment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The payer comes back here after approving the payment (?token=<gateway payment id>)
+  app.get("/api/payments/:gateway/return", async (req, res) => {
+    try {
+      const gateway = paymentService.gateway;
+      if (!gateway || gateway.name !== req.params.gateway || typeof req.query.token !== "string") {
+        return res.redirect("/?checkout=failed");
+      }
+
+      const payment = await paymentService.handleEvent({ type: "approved", paymentId: req.query.token });
+      const outcome = payment?.status === "completed" ? "success" : payment?.status === "processing" ? "pending" : "failed";
+      res.redirect(`/?checkout=${outcome}`);
+    } catch (error) {
+      console.error("Payment return error:", error);
+      res.redirect("/?checkout=failed");
+    }
+  });
+
+  // Payment processor notifications; the gateway verifies each one before it is applied
+  app.post("/api/payments/:gateway/webhook", async (req, res) => {
+    try {
+      if (paymentService.gateway?.name !== req.params.gateway) {
+        return res.status(404).json({ message: "Unknown payment gateway" });
+      }
+
+      await paymentService.handleWebhook({ headers: req.headers, rawBody: req.rawBody ?? Buffer.alloc(0), body: req.body });
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Checkout "page" of the fake gateway: approves right away and returns to the app
+  app.get("/api/payments/fake/checkout/:paymentId", (req, res) => {
+    const gateway = paymentService.gateway;
+    const redirect = gateway instanceof FakePaymentGateway ? gateway.approvalRedirect(req.params.paymentId) : undefined;
+    if (!redirect) {
+      return res.status(404).json({ message: "Checkout not found" });
+    }
+    res.redirect(redirect);
+  });
+
+  // A shopper picked a retailer link. The returned /go/:clickId URL logs the visit and
+  // forwards them to the retailer through its affiliate program.
+  app.post("/api/affiliate/click", async (req, res) => {
+    try {
+      const productId = parseInt(req.body.productId);
+      const retailerId = parseInt(req.body.retailerId);
+      if (isNaN(productId) || isNaN(retailerId)) {
+        return res.status(400).json({ message: "productId and retailerId are required" });
+      }
+
+      const userId = req.isAuthenticated() ? req.user.id : null;
+      const clickId = await monetizationService.createAffiliateClick(userId, productId, retailerId);
+      if (!clickId) {
+        return res.status(404).json({ message: "No link to this product at that retailer" });
+      }
+      res.json({ clickId, affiliateUrl: `/go/${clickId}` });
+    } catch (error) {
+      console.error("Affiliate click error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/go/:clickId", async (req, res) => {
+    try {
+      const clickId = parseClickId(req.params.clickId);
+      const destination = clickId === null ? undefined : await monetizationService.followAffiliateClick(clickId);
+      if (!destination) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+      res.redirect(destination);
+    } catch (error) {
+      console.error("Affiliate redirect error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sale notifications from affiliate networks, as query parameters or a POST form:
+  // click_id (the sub-id we sent), order_value (e.g. 49.99), currency (default USD) and
+  // signature. The first postback for a click records its commission; repeats are ignored.
+  const handleAffiliatePostback = async (req: Request, res: Response) => {
+    try {
+      if (!postbacksEnabled()) {
+        return res.status(503).json({ message: "Affiliate postbacks are not configured" });
+      }
+
+      const params = verifyPostback(req.method === "GET" ? req.query : req.body ?? {});
+      const clickId = parseClickId(params.click_id ?? "");
+      if (clickId === null) {
+        return res.status(404).json({ message: "Unknown click" });
+      }
+
+      const currency = (params.currency || "USD").toUpperCase();
+      const orderValue = /^[A-Z]{3}$/.test(currency) ? parseAmount(params.order_value, currency) : null;
+      if (!orderValue || orderValue.amountMinor < 0) {
+        return res.status(400).json({ message: "order_value must be an amount in a valid currency" });
+      }
+
+      const conversion = await monetizationService.trackAffiliateConversion(clickId, orderValue);
+      res.json({ recorded: Boolean(conversion) });
+    } catch (error) {
+      if (error instanceof PostbackVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Affiliate postback error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+  app.get("/api/affiliate/postback", handleAffiliatePostback);
+  app.post("/api/affiliate/postback", handleAffiliatePostback);
+
   // Shopping assistant chat
   app.post("/api/chat", async (req, res) => {
     try {
-      const { message, userId } = req.body;
+      const { message } = req.body;
       
       if (!message) {
         return res.status(400).json({ message: "Message is required" });
@@ -443,14 +892,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const response = await generateShoppingAssistantResponse(message);
       
-      if (userId) {
-        await storage.addChatMessage({
-          userId,
-          message,
-          response,
-          isUser: true
-        });
-      }
+      await storage.addChatMessage(dataOwner(req), {
+        message,
+        response,
+        isUser: true
+      });
       
       res.json({ response });
     } catch (error) {
@@ -460,10 +906,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get chat history
-  app.get("/api/chat/:userId", async (req, res) => {
+  app.get("/api/chat", async (req, res) => {
     try {
-      const { userId } = req.params;
-      const history = await storage.getChatHistory(userId);
+      const history = await storage.getChatHistory(dataOwner(req));
       res.json(history);
     } catch (error) {
       console.error("Get chat history error:", error);
@@ -471,6 +916,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clear chat history
+  app.delete("/api/chat", async (req, res) => {
+    try {
+      await storage.clearChatHistory(dataOwner(req));
+      res.json({ message: "Chat history cleared" });
+    } catch (error) {
+      console.error("Clear chat history error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
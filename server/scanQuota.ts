@@ -0,0 +1,81 @@
+import type { Request, Response } from "express";
+import {
+  monetizationService,
+  scanAllowance,
+  scanCountExpired,
+  type ScanLimitStatus
+} from "./monetization";
+import { planCatalog, FREE_PLAN_ID } from "./plans";
+import { requestTimeZone } from "./timeZones";
+
+// Daily scan limits per plan. Signed-in users are counted on their account; anonymous
+// visitors get the free plan's allowance, counted in their session. Routes check the
+// limit once the barcode is valid and count a lookup only when it found the product.
+// Each product counts once a day, so opening it again or re-fetching it for other
+// settings is free; refreshes, which always go upstream, pass no barcode and count
+// every time.
+
+interface SessionScanQuota {
+  count: number;
+  lastResetAt: string;
+  barcodes: string[];
+}
+
+// Today's count for an anonymous visitor, or null when a new day has started
+function sessionScanQuota(req: Request, timeZone: string, now: Date): SessionScanQuota | null {
+  const quota = req.session.scanQuota;
+  if (!quota || scanCountExpired(new Date(quota.lastResetAt), timeZone, now)) return null;
+  return { ...quota, barcodes: quota.barcodes ?? [] };
+}
+
+export async function scanLimitFor(req: Request, barcode?: string): Promise<ScanLimitStatus> {
+  const timeZone = requestTimeZone(req);
+  if (req.isAuthenticated()) {
+    return monetizationService.checkScanLimit(req.user.id, timeZone, barcode);
+  }
+
+  const dailyLimit = planCatalog.get(FREE_PLAN_ID)?.dailyScanLimit;
+  if (!dailyLimit) {
+    return { canScan: true, scansUsed: 0, scansRemaining: -1, dailyLimit: null };
+  }
+
+  const now = new Date();
+  const quota = sessionScanQuota(req, timeZone, now);
+  const status = scanAllowance(dailyLimit, quota?.count ?? 0, timeZone, now);
+  return barcode && quota?.barcodes.includes(barcode) ? { ...status, canScan: true } : status;
+}
+
+// Counts a successful lookup; false when the limit was used up in the meantime
+export async function countScan(req: Request, barcode?: string): Promise<boolean> {
+  const timeZone = requestTimeZone(req);
+  if (req.isAuthenticated()) {
+    return monetizationService.countScan(req.user.id, timeZone, barcode);
+  }
+
+  const dailyLimit = planCatalog.get(FREE_PLAN_ID)?.dailyScanLimit;
+  if (!dailyLimit) return true;
+
+  const now = new Date();
+  const quota = sessionScanQuota(req, timeZone, now) ?? { count: 0, lastResetAt: now.toISOString(), barcodes: [] };
+  if (barcode && quota.barcodes.includes(barcode)) return true;
+  if (quota.count >= dailyLimit) return false;
+
+  req.session.scanQuota = {
+    ...quota,
+    count: quota.count + 1,
+    barcodes: barcode ? [...quota.barcodes, barcode] : quota.barcodes
+  };
+  return true;
+}
+
+export function sendScanLimitReached(res: Response, status: ScanLimitStatus): Response {
+  if (status.resetTime) {
+    res.set("Retry-After", String(Math.max(1, Math.ceil((status.resetTime.getTime() - Date.now()) / 1000))));
+  }
+  return res.status(429).json({
+    message: "Daily scan limit reached",
+    scansUsed: status.scansUsed,
+    dailyLimit: status.dailyLimit,
+    resetTime: status.resetTime
+  });
+}
@@ -6,12 +6,22 @@ import {
   favorites,
   shoppingListItems,
   chatMessages,
+  priceAlerts,
   advertisements,
   adClicks,
   affiliateClicks,
   subscriptionPayments,
+  subscriptionPlans,
   revenueMetrics,
   featureUsage,
+  lookupCache,
+  priceObservations,
+  exchangeRates,
+  priceAlertEvents,
+  notifications,
+  pushSubscriptions,
+  loginTokens,
+  userIdentities,
   users,
   type Product,
   type InsertProduct,
@@ -35,27 +45,158 @@ import {
   type InsertAffiliateClick,
   type SubscriptionPayment,
   type InsertSubscriptionPayment,
+  type SubscriptionPlan,
+  type InsertSubscriptionPlan,
   type RevenueMetric,
   type InsertRevenueMetric,
   type FeatureUsage,
   type InsertFeatureUsage,
+  type LookupCacheEntry,
+  type InsertLookupCacheEntry,
+  type PriceObservation,
+  type ExchangeRate,
+  type InsertPriceObservation,
+  type PriceAlert,
+  type InsertPriceAlert,
+  type PriceAlertEvent,
+  type InsertPriceAlertEvent,
+  type Notification,
+  type InsertNotification,
+  type PushSubscription,
+  type InsertPushSubscription,
   type ProductWithPrices,
+  type PriceChange,
   type User,
   type UpsertUser,
+  type UserPreferences,
+  type LoginToken,
+  type InsertLoginToken,
+  type InsertUserIdentity,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql, gte, lte, and } from "drizzle-orm";
+import { money, type Money, type ExchangeRates } from "@shared/money";
+import { eq, sql, gte, lte, and, or, lt, isNull, desc, asc, inArray } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A retailer offer to be stored as a price row; the retailer is matched by name
+export interface RetailerPriceInput {
+  retailer: string;
+  price: Money;
+  stock: string | null;
+  url: string | null;
+  shipping: Money | null; // Assumed to be in the price's currency
+  source: string | null; // Provider or merchant API that reported the offer
+}
+
+function toPriceColumns(offer: RetailerPriceInput) {
+  return {
+    priceMinor: offer.price.amountMinor,
+    currency: offer.price.currency,
+    stock: offer.stock,
+    url: offer.url,
+    shippingMinor: offer.shipping?.amountMinor ?? null
+  };
+}
+
+function toPriceChange(offer: RetailerPriceInput, existing?: Price): PriceChange {
+  if (!existing) {
+    return { retailer: offer.retailer, change: "added", price: offer.price, stock: offer.stock };
+  }
+  const changed = existing.priceMinor !== offer.price.amountMinor ||
+    existing.currency !== offer.price.currency ||
+    existing.stock !== offer.stock;
+  return {
+    retailer: offer.retailer,
+    change: changed ? "updated" : "unchanged",
+    price: offer.price,
+    previousPrice: money(existing.priceMinor, existing.currency),
+    stock: offer.stock,
+    previousStock: existing.stock
+  };
+}
+
+// Whose scan history, favorites and shopping list a call reads or writes: a signed-in
+// user or an anonymous device
+export type DataOwner = { userId: string } | { deviceId: string };
+
+// Insert types with the owner columns left to the owner argument
+type Owned<T> = Omit<T, "userId" | "deviceId">;
+
+function ownerColumns(owner: DataOwner): { userId: string | null; deviceId: string | null } {
+  return "userId" in owner ? { userId: owner.userId, deviceId: null } : { userId: null, deviceId: owner.deviceId };
+}
+
+function ownedBy(
+  table: typeof scanHistory | typeof favorites | typeof shoppingListItems | typeof chatMessages,
+  owner: DataOwner
+) {
+  return "userId" in owner ? eq(table.userId, owner.userId) : eq(table.deviceId, owner.deviceId);
+}
+
+function isOwnedBy(row: { userId: string | null; deviceId: string | null }, owner: DataOwner): boolean {
+  return "userId" in owner ? row.userId === owner.userId : row.deviceId === owner.deviceId;
+}
+
+// Combined quantity of two list items for the same product; the result is only done
+// when both were
+function mergedShoppingListItem(into: ShoppingListItem, from: ShoppingListItem) {
+  return {
+    quantity: (into.quantity ?? 1) + (from.quantity ?? 1),
+    completed: !!into.completed && !!from.completed
+  };
+}
+
+// History row for a stored offer
+function toPriceObservation(productId: number, retailerId: number, offer: RetailerPriceInput): InsertPriceObservation {
+  return {
+    productId,
+    retailerId,
+    amountMinor: offer.price.amountMinor,
+    currency: offer.price.currency,
+    availability: offer.stock,
+    source: offer.source
+  };
+}
+
+// Subscription fields of a user that billing maintains
+export type SubscriptionUpdate = Partial<Pick<User,
+  | "subscriptionTier"
+  | "subscriptionExpiresAt"
+  | "subscriptionAutoRenew"
+  | "subscriptionPaymentMethod"
+  | "subscriptionPaymentToken"
+  | "subscriptionNextRenewalAt"
+  | "subscriptionRenewalAttempts"
+  | "subscriptionCreditMinor"
+  | "subscriptionRenewalPlan"
+>>;
 
 export interface IStorage {
   // User operations (required for authentication)
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  updateUserSubscription(userId: string, updates: { subscriptionTier?: string; subscriptionExpiresAt?: Date | null }): Promise<void>;
+  updateUserSubscription(userId: string, updates: SubscriptionUpdate): Promise<void>;
+  updateUserPreferences(userId: string, preferences: UserPreferences): Promise<User | undefined>;
+  // Users on a paid plan that expires by the given time
+  getSubscriptionsDue(before: Date): Promise<User[]>;
   resetDailyScanCount(userId: string): Promise<void>;
-  incrementDailyScanCount(userId: string): Promise<void>;
+  // Counts one scan unless the limit is reached, in a single conditional update; a barcode
+  // already counted today isn't counted again. False when the limit is reached.
+  countDailyScan(userId: string, dailyLimit: number, barcode?: string): Promise<boolean>;
+
+  // Email login links
+  createLoginToken(token: InsertLoginToken): Promise<void>;
+  consumeLoginToken(tokenHash: string): Promise<string | undefined>; // The token's email, if it was valid and unused
+
+  // OpenID Connect identities
+  getUserByIdentity(provider: string, subject: string): Promise<User | undefined>;
+  linkUserIdentity(identity: InsertUserIdentity): Promise<void>;
   
   // Products
   getProductByBarcode(barcode: string): Promise<ProductWithPrices | undefined>;
+  getProductById(id: number): Promise<ProductWithPrices | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, updates: Partial<InsertProduct>): Promise<Product>;
   
@@ -68,8 +209,27 @@ export interface IStorage {
   trackAffiliateClick(click: InsertAffiliateClick): Promise<AffiliateClick>;
   getAffiliateClick(id: number): Promise<AffiliateClick | undefined>;
   updateAffiliateClick(id: number, updates: Partial<AffiliateClick>): Promise<void>;
+  // Marks the click converted with its commission; undefined when it was already converted
+  recordAffiliateConversion(id: number, actualCommissionMinor: number, currency: string): Promise<AffiliateClick | undefined>;
   getAffiliateClicksRange(startDate: Date, endDate: Date): Promise<AffiliateClick[]>;
   
+  // Plan catalog
+  getSubscriptionPlans(): Promise<SubscriptionPlan[]>; // In sortOrder
+  upsertSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan>;
+  addMissingSubscriptionPlans(plans: InsertSubscriptionPlan[]): Promise<void>; // Leaves existing plans as they are
+
+  // Subscription payments
+  createSubscriptionPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment>;
+  getSubscriptionPayment(id: number): Promise<SubscriptionPayment | undefined>;
+  getSubscriptionPaymentByPaymentId(paymentMethod: string, paymentId: string): Promise<SubscriptionPayment | undefined>;
+  getSubscriptionPayments(userId: string): Promise<SubscriptionPayment[]>; // Newest first
+  // Only updates a payment whose status is one of fromStatuses, so repeated gateway events apply once
+  updateSubscriptionPayment(
+    id: number,
+    updates: Partial<SubscriptionPayment>,
+    fromStatuses?: string[]
+  ): Promise<SubscriptionPayment | undefined>;
+  
   // Revenue metrics
   getRevenueMetricsByDate(date: string): Promise<RevenueMetric | undefined>;
   createRevenueMetric(metric: InsertRevenueMetric): Promise<RevenueMetric>;
@@ -80,29 +240,72 @@ export interface IStorage {
   // Feature usage
   trackFeatureUsage(usage: InsertFeatureUsage): Promise<FeatureUsage>;
   
+  // Lookup cache
+  getLookupCacheEntries(barcode: string): Promise<LookupCacheEntry[]>;
+  upsertLookupCacheEntry(entry: InsertLookupCacheEntry): Promise<LookupCacheEntry>;
+  
   // Prices
   createPrice(price: InsertPrice): Promise<Price>;
   
+  // Product ingest (atomic: either the product and all its prices are stored, or nothing is)
+  createProductWithPrices(product: InsertProduct, offers: RetailerPriceInput[]): Promise<Product>;
+  addProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<void>;
+  
+  // Price refresh
+  getStaleProducts(refreshedBefore: Date, limit: number): Promise<Product[]>;
+  upsertProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<PriceChange[]>;
+  markPricesRefreshed(productId: number): Promise<void>;
+  
+  // Price history
+  getPriceObservations(productId: number, since: Date): Promise<(PriceObservation & { retailer: Retailer })[]>;
+  
+  // Exchange rates
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  replaceExchangeRates(exchangeRates: ExchangeRates, source: string): Promise<void>;
+
+  // Price alerts
+  getPriceAlerts(userId: string): Promise<(PriceAlert & { product: ProductWithPrices })[]>;
+  getPriceAlert(id: number): Promise<PriceAlert | undefined>;
+  getActivePriceAlerts(): Promise<PriceAlert[]>;
+  createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert>;
+  updatePriceAlert(id: number, updates: Partial<PriceAlert>): Promise<PriceAlert>;
+  deletePriceAlert(id: number): Promise<void>;
+  addPriceAlertEvent(event: InsertPriceAlertEvent): Promise<PriceAlertEvent>;
+  getPriceAlertEvents(userId: string, since: Date): Promise<PriceAlertEvent[]>;
+
+  // Notifications
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>; // undefined when the dedupe key was already used
+  getDueNotifications(now: Date, limit: number): Promise<Notification[]>;
+  updateNotification(id: number, updates: Partial<Notification>): Promise<void>;
+  getInboxNotifications(userId: string, limit: number): Promise<Notification[]>;
+  markNotificationRead(id: number, userId: string): Promise<Notification | undefined>;
+  getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
+  upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  removePushSubscription(endpoint: string): Promise<void>;
+  
   // Scan History
-  addScanHistory(scan: InsertScanHistory): Promise<ScanHistory>;
-  getScanHistory(): Promise<ScanHistory[]>;
-  clearScanHistory(): Promise<void>;
+  addScanHistory(owner: DataOwner, scan: Owned<InsertScanHistory>): Promise<ScanHistory>;
+  getScanHistory(owner: DataOwner): Promise<ScanHistory[]>;
+  clearScanHistory(owner: DataOwner): Promise<void>;
   
   // Favorites
-  addFavorite(favorite: InsertFavorite): Promise<Favorite>;
-  removeFavorite(productId: number): Promise<void>;
-  getFavorites(): Promise<(Favorite & { product: ProductWithPrices })[]>;
+  addFavorite(owner: DataOwner, favorite: Owned<InsertFavorite>): Promise<Favorite>;
+  removeFavorite(owner: DataOwner, productId: number): Promise<void>;
+  getFavorites(owner: DataOwner): Promise<(Favorite & { product: ProductWithPrices })[]>;
   
   // Shopping List
-  addShoppingListItem(item: InsertShoppingListItem): Promise<ShoppingListItem>;
-  updateShoppingListItem(id: number, updates: Partial<ShoppingListItem>): Promise<ShoppingListItem>;
-  removeShoppingListItem(id: number): Promise<void>;
-  getShoppingList(): Promise<(ShoppingListItem & { product: ProductWithPrices })[]>;
+  addShoppingListItem(owner: DataOwner, item: Owned<InsertShoppingListItem>): Promise<ShoppingListItem>;
+  updateShoppingListItem(owner: DataOwner, id: number, updates: Partial<ShoppingListItem>): Promise<ShoppingListItem | undefined>;
+  removeShoppingListItem(owner: DataOwner, id: number): Promise<void>;
+  getShoppingList(owner: DataOwner): Promise<(ShoppingListItem & { product: ProductWithPrices })[]>;
   
   // Chat Messages
-  addChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  getChatHistory(userId: string): Promise<ChatMessage[]>;
-  clearChatHistory(userId: string): Promise<void>;
+  addChatMessage(owner: DataOwner, message: Owned<InsertChatMessage>): Promise<ChatMessage>;
+  getChatHistory(owner: DataOwner): Promise<ChatMessage[]>;
+  clearChatHistory(owner: DataOwner): Promise<void>;
+
+  // Moves an anonymous device's scan history, favorites, shopping list and chat into an account
+  mergeDeviceData(deviceId: string, userId: string): Promise<void>;
   
   // Advertisements
   getActiveAds(placement: string): Promise<Advertisement[]>;
@@ -117,6 +320,42 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createLoginToken(token: InsertLoginToken): Promise<void> {
+    await db.insert(loginTokens).values(token);
+  }
+
+  // Marking the token used in the same statement keeps a link from working twice
+  async consumeLoginToken(tokenHash: string): Promise<string | undefined> {
+    const [token] = await db
+      .update(loginTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(loginTokens.tokenHash, tokenHash),
+        isNull(loginTokens.usedAt),
+        gte(loginTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token?.email;
+  }
+
+  async getUserByIdentity(provider: string, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  async linkUserIdentity(identity: InsertUserIdentity): Promise<void> {
+    await db.insert(userIdentities).values(identity).onConflictDoNothing();
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -132,6 +371,119 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // User subscription methods
+  async updateUserSubscription(userId: string, updates: SubscriptionUpdate): Promise<void> {
+    await db.update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ ...preferences, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getSubscriptionsDue(before: Date): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(and(sql`${users.subscriptionTier} != 'free'`, lte(users.subscriptionExpiresAt, before)));
+  }
+
+  async resetDailyScanCount(userId: string): Promise<void> {
+    await db.update(users)
+      .set({
+        dailyScansCount: 0,
+        dailyScannedBarcodes: [],
+        lastScanResetDate: new Date()
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async countDailyScan(userId: string, dailyLimit: number, barcode?: string): Promise<boolean> {
+    const barcodeJson = JSON.stringify([barcode]);
+    const [counted] = await db.update(users)
+      .set({
+        dailyScansCount: sql`coalesce(${users.dailyScansCount}, 0) + 1`,
+        ...(barcode ? { dailyScannedBarcodes: sql`${users.dailyScannedBarcodes} || ${barcodeJson}::jsonb` } : {})
+      })
+      .where(and(
+        eq(users.id, userId),
+        sql`coalesce(${users.dailyScansCount}, 0) < ${dailyLimit}`,
+        barcode ? sql`not ${users.dailyScannedBarcodes} @> ${barcodeJson}::jsonb` : undefined
+      ))
+      .returning({ id: users.id });
+    if (counted) return true;
+    if (!barcode) return false;
+
+    // Either the limit is reached or the barcode was counted earlier today
+    const [user] = await db.select({ barcodes: users.dailyScannedBarcodes }).from(users).where(eq(users.id, userId));
+    return !!user?.barcodes.includes(barcode);
+  }
+
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    return db.select().from(subscriptionPlans).orderBy(asc(subscriptionPlans.sortOrder), asc(subscriptionPlans.id));
+  }
+
+  async upsertSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
+    const [saved] = await db
+      .insert(subscriptionPlans)
+      .values(plan)
+      .onConflictDoUpdate({ target: subscriptionPlans.id, set: { ...plan, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async addMissingSubscriptionPlans(plans: InsertSubscriptionPlan[]): Promise<void> {
+    if (plans.length === 0) return;
+    await db.insert(subscriptionPlans).values(plans).onConflictDoNothing();
+  }
+
+  async createSubscriptionPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment> {
+    const [created] = await db.insert(subscriptionPayments).values(payment).returning();
+    return created;
+  }
+
+  async getSubscriptionPayment(id: number): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await db.select().from(subscriptionPayments).where(eq(subscriptionPayments.id, id));
+    return payment;
+  }
+
+  async getSubscriptionPaymentByPaymentId(paymentMethod: string, paymentId: string): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(subscriptionPayments)
+      .where(and(eq(subscriptionPayments.paymentMethod, paymentMethod), eq(subscriptionPayments.paymentId, paymentId)));
+    return payment;
+  }
+
+  async getSubscriptionPayments(userId: string): Promise<SubscriptionPayment[]> {
+    return db
+      .select()
+      .from(subscriptionPayments)
+      .where(eq(subscriptionPayments.userId, userId))
+      .orderBy(desc(subscriptionPayments.createdAt), desc(subscriptionPayments.id));
+  }
+
+  async updateSubscriptionPayment(
+    id: number,
+    updates: Partial<SubscriptionPayment>,
+    fromStatuses?: string[]
+  ): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await db
+      .update(subscriptionPayments)
+      .set(updates)
+      .where(and(
+        eq(subscriptionPayments.id, id),
+        fromStatuses ? inArray(subscriptionPayments.status, fromStatuses) : undefined
+      ))
+      .returning();
+    return payment;
+  }
+
   async getProductByBarcode(barcode: string): Promise<ProductWithPrices | undefined> {
     const [product] = await db.select().from(products).where(eq(products.barcode, barcode));
     if (!product) return undefined;
@@ -141,9 +493,12 @@ export class DatabaseStorage implements IStorage {
         id: prices.id,
         productId: prices.productId,
         retailerId: prices.retailerId,
-        price: prices.price,
+        priceMinor: prices.priceMinor,
+        currency: prices.currency,
         stock: prices.stock,
         url: prices.url,
+        shippingMinor: prices.shippingMinor,
+        updatedAt: prices.updatedAt,
         retailer: retailers,
       })
       .from(prices)
@@ -156,6 +511,11 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getProductById(id: number): Promise<ProductWithPrices | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product ? await this.getProductByBarcode(product.barcode) : undefined;
+  }
+
   async createProduct(product: InsertProduct): Promise<Product> {
     const [newProduct] = await db
       .insert(products)
@@ -185,6 +545,94 @@ export class DatabaseStorage implements IStorage {
     return newRetailer;
   }
 
+  async getRetailerById(id: number): Promise<Retailer | undefined> {
+    const [retailer] = await db.select().from(retailers).where(eq(retailers.id, id));
+    return retailer;
+  }
+
+  // Affiliate tracking methods
+  async trackAffiliateClick(click: InsertAffiliateClick): Promise<AffiliateClick> {
+    const [affiliateClick] = await db.insert(affiliateClicks)
+      .values(click)
+      .returning();
+    return affiliateClick;
+  }
+
+  async getAffiliateClick(id: number): Promise<AffiliateClick | undefined> {
+    const [click] = await db.select().from(affiliateClicks).where(eq(affiliateClicks.id, id));
+    return click;
+  }
+
+  async updateAffiliateClick(id: number, updates: Partial<AffiliateClick>): Promise<void> {
+    await db.update(affiliateClicks)
+      .set(updates)
+      .where(eq(affiliateClicks.id, id));
+  }
+
+  async recordAffiliateConversion(
+    id: number,
+    actualCommissionMinor: number,
+    currency: string
+  ): Promise<AffiliateClick | undefined> {
+    const [click] = await db.update(affiliateClicks)
+      .set({ conversionTracked: true, actualCommissionMinor, currency })
+      .where(and(
+        eq(affiliateClicks.id, id),
+        or(isNull(affiliateClicks.conversionTracked), eq(affiliateClicks.conversionTracked, false))
+      ))
+      .returning();
+    return click;
+  }
+
+  async getAffiliateClicksRange(startDate: Date, endDate: Date): Promise<AffiliateClick[]> {
+    return await db.select()
+      .from(affiliateClicks)
+      .where(sql`${affiliateClicks.clickedAt} >= ${startDate} AND ${affiliateClicks.clickedAt} <= ${endDate}`);
+  }
+
+  // Revenue metrics methods
+  async getRevenueMetricsByDate(date: string): Promise<RevenueMetric | undefined> {
+    const [metric] = await db.select()
+      .from(revenueMetrics)
+      .where(sql`DATE(${revenueMetrics.date}) = ${date}`);
+    return metric;
+  }
+
+  async createRevenueMetric(metric: InsertRevenueMetric): Promise<RevenueMetric> {
+    const [revenueMetric] = await db.insert(revenueMetrics)
+      .values(metric)
+      .returning();
+    return revenueMetric;
+  }
+
+  async updateRevenueMetrics(id: number, updates: Partial<RevenueMetric>): Promise<void> {
+    await db.update(revenueMetrics)
+      .set(updates)
+      .where(eq(revenueMetrics.id, id));
+  }
+
+  async getRevenueMetricsRange(startDate: Date, endDate: Date): Promise<RevenueMetric[]> {
+    return await db.select()
+      .from(revenueMetrics)
+      .where(sql`${revenueMetrics.date} >= ${startDate} AND ${revenueMetrics.date} <= ${endDate}`)
+      .orderBy(revenueMetrics.date);
+  }
+
+  async getActiveSubscribersCount(): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)` })
+      .from(users)
+      .where(sql`${users.subscriptionTier} != 'free' AND (${users.subscriptionExpiresAt} IS NULL OR ${users.subscriptionExpiresAt} > NOW())`);
+    return result[0]?.count || 0;
+  }
+
+  // Feature usage tracking
+  async trackFeatureUsage(usage: InsertFeatureUsage): Promise<FeatureUsage> {
+    const [featureUsageRecord] = await db.insert(featureUsage)
+      .values(usage)
+      .returning();
+    return featureUsageRecord;
+  }
+
   async createPrice(price: InsertPrice): Promise<Price> {
     const [newPrice] = await db
       .insert(prices)
@@ -193,45 +641,314 @@ export class DatabaseStorage implements IStorage {
     return newPrice;
   }
 
-  async addScanHistory(scan: InsertScanHistory): Promise<ScanHistory> {
+  async createProductWithPrices(product: InsertProduct, offers: RetailerPriceInput[]): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const [newProduct] = await tx
+        .insert(products)
+        .values(product)
+        .returning();
+      await this.insertRetailerPrices(tx, newProduct.id, offers);
+      return newProduct;
+    });
+  }
+
+  async addProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.insertRetailerPrices(tx, productId, offers);
+    });
+  }
+
+  // Finds or creates each offer's retailer, loading the retailer list once per ingest
+  private async insertRetailerPrices(tx: Transaction, productId: number, offers: RetailerPriceInput[]): Promise<void> {
+    const retailersByName = new Map((await tx.select().from(retailers)).map(r => [r.name, r]));
+
+    for (const offer of offers) {
+      let retailer = retailersByName.get(offer.retailer);
+      if (!retailer) {
+        [retailer] = await tx
+          .insert(retailers)
+          .values({
+            name: offer.retailer,
+            logo: offer.retailer.charAt(0),
+            affiliateProgram: null,
+            affiliateCommissionRate: null,
+            affiliateBaseUrl: null
+          })
+          .returning();
+        retailersByName.set(retailer.name, retailer);
+      }
+
+      await tx.insert(prices).values({
+        productId,
+        retailerId: retailer.id,
+        ...toPriceColumns(offer)
+      });
+      await this.insertPriceObservation(tx, productId, retailer.id, offer);
+    }
+  }
+
+  private async insertPriceObservation(tx: Transaction, productId: number, retailerId: number, offer: RetailerPriceInput): Promise<void> {
+    await tx.insert(priceObservations).values(toPriceObservation(productId, retailerId, offer));
+  }
+
+  // Products with the oldest prices first, but favorited, listed or alerted products ahead of the rest
+  async getStaleProducts(refreshedBefore: Date, limit: number): Promise<Product[]> {
+    const priority = sql<number>`(
+      (exists (select 1 from ${favorites} where ${favorites.productId} = ${products.id}))::int +
+      (exists (select 1 from ${shoppingListItems} where ${shoppingListItems.productId} = ${products.id} and ${shoppingListItems.completed} = false))::int +
+      (exists (select 1 from ${priceAlerts} where ${priceAlerts.productId} = ${products.id} and ${priceAlerts.isActive} = true))::int
+    )`;
+
+    return await db
+      .select()
+      .from(products)
+      .where(or(isNull(products.pricesRefreshedAt), lt(products.pricesRefreshedAt, refreshedBefore)))
+      .orderBy(desc(priority), sql`${products.pricesRefreshedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  // Updates the existing row for each retailer instead of appending a duplicate
+  async upsertProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<PriceChange[]> {
+    return await db.transaction(async (tx) => {
+      const retailersByName = new Map((await tx.select().from(retailers)).map(r => [r.name, r]));
+      const existingByRetailer = new Map(
+        (await tx.select().from(prices).where(eq(prices.productId, productId))).map(p => [p.retailerId, p])
+      );
+
+      const changes: PriceChange[] = [];
+      const newOffers: RetailerPriceInput[] = [];
+      for (const offer of offers) {
+        const retailer = retailersByName.get(offer.retailer);
+        const existing = retailer && existingByRetailer.get(retailer.id);
+        changes.push(toPriceChange(offer, existing || undefined));
+        if (!existing) {
+          newOffers.push(offer);
+          continue;
+        }
+
+        await tx
+          .update(prices)
+          .set({ ...toPriceColumns(offer), updatedAt: new Date() })
+          .where(eq(prices.id, existing.id));
+        await this.insertPriceObservation(tx, productId, existing.retailerId, offer);
+      }
+
+      await this.insertRetailerPrices(tx, productId, newOffers);
+      return changes;
+    });
+  }
+
+  async markPricesRefreshed(productId: number): Promise<void> {
+    await db.update(products)
+      .set({ pricesRefreshedAt: new Date() })
+      .where(eq(products.id, productId));
+  }
+
+  async getPriceObservations(productId: number, since: Date): Promise<(PriceObservation & { retailer: Retailer })[]> {
+    const rows = await db
+      .select()
+      .from(priceObservations)
+      .innerJoin(retailers, eq(priceObservations.retailerId, retailers.id))
+      .where(and(eq(priceObservations.productId, productId), gte(priceObservations.observedAt, since)))
+      .orderBy(asc(priceObservations.observedAt));
+
+    return rows.map(row => ({ ...row.price_observations, retailer: row.retailers }));
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates);
+  }
+
+  // Swaps the whole table so rates from an older load never linger
+  async replaceExchangeRates(rates: ExchangeRates, source: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(exchangeRates);
+      const rows = Object.entries(rates.rates).map(([currency, rate]) => ({ currency, base: rates.base, rate, source }));
+      if (rows.length > 0) {
+        await tx.insert(exchangeRates).values(rows);
+      }
+    });
+  }
+
+  async getPriceAlerts(userId: string): Promise<(PriceAlert & { product: ProductWithPrices })[]> {
+    const alerts = await db
+      .select()
+      .from(priceAlerts)
+      .where(eq(priceAlerts.userId, userId))
+      .orderBy(desc(priceAlerts.createdAt));
+    const result = [];
+
+    for (const alert of alerts) {
+      const product = await this.getProductById(alert.productId);
+      if (product) {
+        result.push({ ...alert, product });
+      }
+    }
+
+    return result;
+  }
+
+  async getPriceAlert(id: number): Promise<PriceAlert | undefined> {
+    const [alert] = await db.select().from(priceAlerts).where(eq(priceAlerts.id, id));
+    return alert;
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return await db.select().from(priceAlerts).where(eq(priceAlerts.isActive, true));
+  }
+
+  async createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert> {
+    const [newAlert] = await db.insert(priceAlerts).values(alert).returning();
+    return newAlert;
+  }
+
+  async updatePriceAlert(id: number, updates: Partial<PriceAlert>): Promise<PriceAlert> {
+    const [updatedAlert] = await db
+      .update(priceAlerts)
+      .set(updates)
+      .where(eq(priceAlerts.id, id))
+      .returning();
+    return updatedAlert;
+  }
+
+  async deletePriceAlert(id: number): Promise<void> {
+    await db.delete(priceAlerts).where(eq(priceAlerts.id, id));
+  }
+
+  async addPriceAlertEvent(event: InsertPriceAlertEvent): Promise<PriceAlertEvent> {
+    const [newEvent] = await db.insert(priceAlertEvents).values(event).returning();
+    return newEvent;
+  }
+
+  // Newest first
+  async getPriceAlertEvents(userId: string, since: Date): Promise<PriceAlertEvent[]> {
+    return await db
+      .select()
+      .from(priceAlertEvents)
+      .where(and(eq(priceAlertEvents.userId, userId), gte(priceAlertEvents.triggeredAt, since)))
+      .orderBy(desc(priceAlertEvents.triggeredAt));
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const [newNotification] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing()
+      .returning();
+    return newNotification;
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.status, "pending"), lte(notifications.nextAttemptAt, now)))
+      .orderBy(asc(notifications.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateNotification(id: number, updates: Partial<Notification>): Promise<void> {
+    await db.update(notifications).set(updates).where(eq(notifications.id, id));
+  }
+
+  async getInboxNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.channel, "in_app")))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), eq(notifications.channel, "in_app")))
+      .returning();
+    return notification;
+  }
+
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  // A browser re-subscribing (or a different user on the same browser) reuses its endpoint
+  async upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    const [pushSubscription] = await db
+      .insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId: subscription.userId, p256dh: subscription.p256dh, auth: subscription.auth },
+      })
+      .returning();
+    return pushSubscription;
+  }
+
+  async removePushSubscription(endpoint: string): Promise<void> {
+    await db.delete(pushSubscriptions).where(eq(pushSubscriptions.endpoint, endpoint));
+  }
+
+  async getLookupCacheEntries(barcode: string): Promise<LookupCacheEntry[]> {
+    return await db.select().from(lookupCache).where(eq(lookupCache.barcode, barcode));
+  }
+
+  async upsertLookupCacheEntry(entry: InsertLookupCacheEntry): Promise<LookupCacheEntry> {
+    const [cacheEntry] = await db
+      .insert(lookupCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [lookupCache.barcode, lookupCache.provider],
+        set: {
+          ...entry,
+          fetchedAt: new Date(),
+        },
+      })
+      .returning();
+    return cacheEntry;
+  }
+
+  async addScanHistory(owner: DataOwner, scan: Owned<InsertScanHistory>): Promise<ScanHistory> {
     const [newScan] = await db
       .insert(scanHistory)
-      .values(scan)
+      .values({ ...scan, ...ownerColumns(owner) })
       .returning();
     return newScan;
   }
 
-  async getScanHistory(): Promise<ScanHistory[]> {
+  async getScanHistory(owner: DataOwner): Promise<ScanHistory[]> {
     return await db
       .select()
       .from(scanHistory)
+      .where(ownedBy(scanHistory, owner))
       .orderBy(scanHistory.scannedAt)
       .limit(50);
   }
 
-  async clearScanHistory(): Promise<void> {
+  async clearScanHistory(owner: DataOwner): Promise<void> {
     try {
-      await db.delete(scanHistory);
+      await db.delete(scanHistory).where(ownedBy(scanHistory, owner));
     } catch (error) {
       console.error("Error clearing scan history:", error);
       throw new Error("Failed to clear scan history");
     }
   }
 
-  async addFavorite(favorite: InsertFavorite): Promise<Favorite> {
+  async addFavorite(owner: DataOwner, favorite: Owned<InsertFavorite>): Promise<Favorite> {
     const [newFavorite] = await db
       .insert(favorites)
-      .values(favorite)
+      .values({ ...favorite, ...ownerColumns(owner) })
       .returning();
     return newFavorite;
   }
 
-  async removeFavorite(productId: number): Promise<void> {
-    await db.delete(favorites).where(eq(favorites.productId, productId));
+  async removeFavorite(owner: DataOwner, productId: number): Promise<void> {
+    await db.delete(favorites).where(and(ownedBy(favorites, owner), eq(favorites.productId, productId)));
   }
 
-  async getFavorites(): Promise<(Favorite & { product: ProductWithPrices })[]> {
-    const favoritesList = await db.select().from(favorites);
+  async getFavorites(owner: DataOwner): Promise<(Favorite & { product: ProductWithPrices })[]> {
+    const favoritesList = await db.select().from(favorites).where(ownedBy(favorites, owner));
     const result = [];
 
     for (const favorite of favoritesList) {
@@ -249,29 +966,33 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async addShoppingListItem(item: InsertShoppingListItem): Promise<ShoppingListItem> {
+  async addShoppingListItem(owner: DataOwner, item: Owned<InsertShoppingListItem>): Promise<ShoppingListItem> {
     const [newItem] = await db
       .insert(shoppingListItems)
-      .values(item)
+      .values({ ...item, ...ownerColumns(owner) })
       .returning();
     return newItem;
   }
 
-  async updateShoppingListItem(id: number, updates: Partial<ShoppingListItem>): Promise<ShoppingListItem> {
+  async updateShoppingListItem(
+    owner: DataOwner,
+    id: number,
+    updates: Partial<ShoppingListItem>
+  ): Promise<ShoppingListItem | undefined> {
     const [updatedItem] = await db
       .update(shoppingListItems)
       .set(updates)
-      .where(eq(shoppingListItems.id, id))
+      .where(and(ownedBy(shoppingListItems, owner), eq(shoppingListItems.id, id)))
       .returning();
     return updatedItem;
   }
 
-  async removeShoppingListItem(id: number): Promise<void> {
-    await db.delete(shoppingListItems).where(eq(shoppingListItems.id, id));
+  async removeShoppingListItem(owner: DataOwner, id: number): Promise<void> {
+    await db.delete(shoppingListItems).where(and(ownedBy(shoppingListItems, owner), eq(shoppingListItems.id, id)));
   }
 
-  async getShoppingList(): Promise<(ShoppingListItem & { product: ProductWithPrices })[]> {
-    const items = await db.select().from(shoppingListItems);
+  async getShoppingList(owner: DataOwner): Promise<(ShoppingListItem & { product: ProductWithPrices })[]> {
+    const items = await db.select().from(shoppingListItems).where(ownedBy(shoppingListItems, owner));
     const result = [];
 
     for (const item of items) {
@@ -289,26 +1010,65 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+  async addChatMessage(owner: DataOwner, message: Owned<InsertChatMessage>): Promise<ChatMessage> {
     const [chatMessage] = await db
       .insert(chatMessages)
-      .values(message)
+      .values({ ...message, ...ownerColumns(owner) })
       .returning();
     return chatMessage;
   }
 
-  async getChatHistory(userId: string): Promise<ChatMessage[]> {
+  async getChatHistory(owner: DataOwner): Promise<ChatMessage[]> {
     return await db
       .select()
       .from(chatMessages)
-      .where(eq(chatMessages.userId, userId))
+      .where(ownedBy(chatMessages, owner))
       .orderBy(chatMessages.timestamp);
   }
 
-  async clearChatHistory(userId: string): Promise<void> {
+  async clearChatHistory(owner: DataOwner): Promise<void> {
     await db
       .delete(chatMessages)
-      .where(eq(chatMessages.userId, userId));
+      .where(ownedBy(chatMessages, owner));
+  }
+
+  async mergeDeviceData(deviceId: string, userId: string): Promise<void> {
+    const toUser = { userId, deviceId: null };
+
+    await db.transaction(async (tx) => {
+      await tx.update(scanHistory).set(toUser).where(eq(scanHistory.deviceId, deviceId));
+      await tx.update(chatMessages).set(toUser).where(eq(chatMessages.deviceId, deviceId));
+
+      // A product the account already favorited keeps the account's favorite
+      const favoritedProducts = new Set(
+        (await tx.select().from(favorites).where(eq(favorites.userId, userId))).map(favorite => favorite.productId)
+      );
+      for (const favorite of await tx.select().from(favorites).where(eq(favorites.deviceId, deviceId))) {
+        if (favoritedProducts.has(favorite.productId)) {
+          await tx.delete(favorites).where(eq(favorites.id, favorite.id));
+        } else {
+          await tx.update(favorites).set(toUser).where(eq(favorites.id, favorite.id));
+          favoritedProducts.add(favorite.productId);
+        }
+      }
+
+      // A product already on the account's list gets the device item's quantity added
+      const listedProducts = new Map(
+        (await tx.select().from(shoppingListItems).where(eq(shoppingListItems.userId, userId))).map(item => [item.productId, item])
+      );
+      for (const item of await tx.select().from(shoppingListItems).where(eq(shoppingListItems.deviceId, deviceId))) {
+        const existing = listedProducts.get(item.productId);
+        if (existing) {
+          const updates = mergedShoppingListItem(existing, item);
+          await tx.update(shoppingListItems).set(updates).where(eq(shoppingListItems.id, existing.id));
+          await tx.delete(shoppingListItems).where(eq(shoppingListItems.id, item.id));
+          Object.assign(existing, updates);
+        } else {
+          await tx.update(shoppingListItems).set(toUser).where(eq(shoppingListItems.id, item.id));
+          listedProducts.set(item.productId, { ...item, ...toUser });
+        }
+      }
+    });
   }
 
   // Advertisement operations
@@ -394,6 +1154,20 @@ export class MemStorage implements IStorage {
   private favoritesItems: Map<number, Favorite> = new Map();
   private shoppingListItemsMap: Map<number, ShoppingListItem> = new Map();
   private chatMessagesMap: Map<number, ChatMessage> = new Map();
+  private lookupCacheMap: Map<string, LookupCacheEntry> = new Map();
+  private priceObservationsList: PriceObservation[] = [];
+  private exchangeRatesMap: Map<string, ExchangeRate> = new Map();
+  private priceAlertsMap: Map<number, PriceAlert> = new Map();
+  private priceAlertEventsList: PriceAlertEvent[] = [];
+  private notificationsMap: Map<number, Notification> = new Map();
+  private pushSubscriptionsMap: Map<string, PushSubscription> = new Map();
+  private loginTokensMap: Map<string, LoginToken> = new Map();
+  private userIdentitiesMap: Map<string, string> = new Map(); // "<provider>:<subject>" -> user id
+  private subscriptionPaymentsMap: Map<number, SubscriptionPayment> = new Map();
+  private subscriptionPlansMap: Map<string, SubscriptionPlan> = new Map();
+  private affiliateClicksMap: Map<number, AffiliateClick> = new Map();
+  private revenueMetricsMap: Map<number, RevenueMetric> = new Map();
+  private featureUsageList: FeatureUsage[] = [];
   
   private currentProductId = 1;
   private currentRetailerId = 1;
@@ -402,6 +1176,16 @@ export class MemStorage implements IStorage {
   private currentFavoriteId = 1;
   private currentShoppingListId = 1;
   private currentChatMessageId = 1;
+  private currentLookupCacheId = 1;
+  private currentPriceObservationId = 1;
+  private currentPriceAlertId = 1;
+  private currentPriceAlertEventId = 1;
+  private currentNotificationId = 1;
+  private currentPushSubscriptionId = 1;
+  private currentSubscriptionPaymentId = 1;
+  private currentAffiliateClickId = 1;
+  private currentRevenueMetricId = 1;
+  private currentFeatureUsageId = 1;
 
   constructor() {
     this.seedData();
@@ -412,6 +1196,38 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async createLoginToken(token: InsertLoginToken): Promise<void> {
+    this.loginTokensMap.set(token.tokenHash, {
+      ...token,
+      usedAt: null,
+      createdAt: new Date(),
+    });
+  }
+
+  async consumeLoginToken(tokenHash: string): Promise<string | undefined> {
+    const token = this.loginTokensMap.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt < new Date()) return undefined;
+
+    this.loginTokensMap.set(tokenHash, { ...token, usedAt: new Date() });
+    return token.email;
+  }
+
+  async getUserByIdentity(provider: string, subject: string): Promise<User | undefined> {
+    const userId = this.userIdentitiesMap.get(`${provider}:${subject}`);
+    return userId ? this.users.get(userId) : undefined;
+  }
+
+  async linkUserIdentity(identity: InsertUserIdentity): Promise<void> {
+    const key = `${identity.provider}:${identity.subject}`;
+    if (!this.userIdentitiesMap.has(key)) {
+      this.userIdentitiesMap.set(key, identity.userId);
+    }
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const existingUser = this.users.get(userData.id);
     const user: User = {
@@ -421,6 +1237,8 @@ export class MemStorage implements IStorage {
       firstName: userData.firstName ?? null,
       lastName: userData.lastName ?? null,
       profileImageUrl: userData.profileImageUrl ?? null,
+      memberships: userData.memberships ?? existingUser?.memberships ?? [],
+      dailyScannedBarcodes: userData.dailyScannedBarcodes ?? existingUser?.dailyScannedBarcodes ?? [],
       createdAt: existingUser?.createdAt || new Date(),
       updatedAt: new Date(),
     };
@@ -458,6 +1276,11 @@ export class MemStorage implements IStorage {
     };
   }
 
+  async getProductById(id: number): Promise<ProductWithPrices | undefined> {
+    const product = this.products.get(id);
+    return product ? await this.getProductByBarcode(product.barcode) : undefined;
+  }
+
   async createProduct(product: InsertProduct): Promise<Product> {
     const newProduct: Product = { 
       id: this.currentProductId++, 
@@ -465,6 +1288,8 @@ export class MemStorage implements IStorage {
       brand: product.brand ?? null,
       description: product.description ?? null,
       imageUrl: product.imageUrl ?? null,
+      dataSources: product.dataSources ?? null,
+      pricesRefreshedAt: new Date(),
     };
     this.products.set(newProduct.id, newProduct);
     return newProduct;
@@ -494,21 +1319,395 @@ export class MemStorage implements IStorage {
     return newRetailer;
   }
 
+  async getRetailerById(id: number): Promise<Retailer | undefined> {
+    return this.retailers.get(id);
+  }
+
+  // Affiliate tracking methods
+  async trackAffiliateClick(click: InsertAffiliateClick): Promise<AffiliateClick> {
+    const affiliateClick: AffiliateClick = {
+      id: this.currentAffiliateClickId++,
+      userId: click.userId ?? null,
+      productId: click.productId,
+      retailerId: click.retailerId,
+      clickedAt: new Date(),
+      redirectedAt: click.redirectedAt ?? null,
+      affiliateUrl: click.affiliateUrl,
+      commissionRate: click.commissionRate ?? null,
+      estimatedCommissionMinor: click.estimatedCommissionMinor ?? null,
+      conversionTracked: click.conversionTracked ?? false,
+      actualCommissionMinor: click.actualCommissionMinor ?? null,
+      currency: click.currency ?? "USD",
+      commissionPaidAt: click.commissionPaidAt ?? null
+    };
+    this.affiliateClicksMap.set(affiliateClick.id, affiliateClick);
+    return affiliateClick;
+  }
+
+  async getAffiliateClick(id: number): Promise<AffiliateClick | undefined> {
+    return this.affiliateClicksMap.get(id);
+  }
+
+  async updateAffiliateClick(id: number, updates: Partial<AffiliateClick>): Promise<void> {
+    const click = this.affiliateClicksMap.get(id);
+    if (click) {
+      this.affiliateClicksMap.set(id, { ...click, ...updates });
+    }
+  }
+
+  async recordAffiliateConversion(
+    id: number,
+    actualCommissionMinor: number,
+    currency: string
+  ): Promise<AffiliateClick | undefined> {
+    const click = this.affiliateClicksMap.get(id);
+    if (!click || click.conversionTracked) return undefined;
+
+    const converted = { ...click, conversionTracked: true, actualCommissionMinor, currency };
+    this.affiliateClicksMap.set(id, converted);
+    return converted;
+  }
+
+  async getAffiliateClicksRange(startDate: Date, endDate: Date): Promise<AffiliateClick[]> {
+    return Array.from(this.affiliateClicksMap.values())
+      .filter(click => click.clickedAt && click.clickedAt >= startDate && click.clickedAt <= endDate);
+  }
+
+  // Revenue metrics methods
+  async getRevenueMetricsByDate(date: string): Promise<RevenueMetric | undefined> {
+    return Array.from(this.revenueMetricsMap.values())
+      .find(metric => metric.date.toISOString().split('T')[0] === date);
+  }
+
+  async createRevenueMetric(metric: InsertRevenueMetric): Promise<RevenueMetric> {
+    const revenueMetric: RevenueMetric = {
+      id: this.currentRevenueMetricId++,
+      date: metric.date,
+      affiliateRevenueMinor: metric.affiliateRevenueMinor ?? 0,
+      subscriptionRevenueMinor: metric.subscriptionRevenueMinor ?? 0,
+      adRevenueMinor: metric.adRevenueMinor ?? 0,
+      totalRevenueMinor: metric.totalRevenueMinor ?? 0,
+      currency: metric.currency ?? "USD",
+      activeSubscribers: metric.activeSubscribers ?? 0,
+      newSubscribers: metric.newSubscribers ?? 0,
+      churnedSubscribers: metric.churnedSubscribers ?? 0,
+      affiliateClicks: metric.affiliateClicks ?? 0,
+      affiliateConversions: metric.affiliateConversions ?? 0,
+      createdAt: new Date()
+    };
+    this.revenueMetricsMap.set(revenueMetric.id, revenueMetric);
+    return revenueMetric;
+  }
+
+  async updateRevenueMetrics(id: number, updates: Partial<RevenueMetric>): Promise<void> {
+    const metric = this.revenueMetricsMap.get(id);
+    if (metric) {
+      this.revenueMetricsMap.set(id, { ...metric, ...updates });
+    }
+  }
+
+  async getRevenueMetricsRange(startDate: Date, endDate: Date): Promise<RevenueMetric[]> {
+    return Array.from(this.revenueMetricsMap.values())
+      .filter(metric => metric.date >= startDate && metric.date <= endDate)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async getActiveSubscribersCount(): Promise<number> {
+    const now = new Date();
+    return Array.from(this.users.values()).filter(user =>
+      user.subscriptionTier && user.subscriptionTier !== 'free' &&
+      (!user.subscriptionExpiresAt || user.subscriptionExpiresAt > now)
+    ).length;
+  }
+
+  // Feature usage tracking
+  async trackFeatureUsage(usage: InsertFeatureUsage): Promise<FeatureUsage> {
+    const record: FeatureUsage = {
+      id: this.currentFeatureUsageId++,
+      userId: usage.userId,
+      feature: usage.feature,
+      usageCount: usage.usageCount ?? 1,
+      lastUsedAt: new Date(),
+      subscriptionTierAtUsage: usage.subscriptionTierAtUsage ?? null
+    };
+    this.featureUsageList.push(record);
+    return record;
+  }
+
   async createPrice(price: InsertPrice): Promise<Price> {
     const newPrice: Price = { 
       id: this.currentPriceId++, 
       ...price,
       stock: price.stock ?? null,
+      currency: price.currency ?? "USD",
       url: price.url ?? null,
+      shippingMinor: price.shippingMinor ?? null,
+      updatedAt: new Date(),
     };
     this.prices.set(newPrice.id, newPrice);
     return newPrice;
   }
 
-  async addScanHistory(scan: InsertScanHistory): Promise<ScanHistory> {
+  async createProductWithPrices(product: InsertProduct, offers: RetailerPriceInput[]): Promise<Product> {
+    const newProduct = await this.createProduct(product);
+    await this.addProductPrices(newProduct.id, offers);
+    return newProduct;
+  }
+
+  async addProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<void> {
+    for (const offer of offers) {
+      let retailer = Array.from(this.retailers.values()).find(r => r.name === offer.retailer);
+      if (!retailer) {
+        retailer = await this.createRetailer({
+          name: offer.retailer,
+          logo: offer.retailer.charAt(0),
+          affiliateProgram: null,
+          affiliateCommissionRate: null,
+          affiliateBaseUrl: null
+        });
+      }
+
+      await this.createPrice({
+        productId,
+        retailerId: retailer.id,
+        ...toPriceColumns(offer)
+      });
+      this.recordPriceObservation(productId, retailer.id, offer);
+    }
+  }
+
+  private recordPriceObservation(productId: number, retailerId: number, offer: RetailerPriceInput): void {
+    const observation = toPriceObservation(productId, retailerId, offer);
+    this.priceObservationsList.push({
+      id: this.currentPriceObservationId++,
+      ...observation,
+      currency: observation.currency ?? "USD",
+      availability: observation.availability ?? null,
+      source: observation.source ?? null,
+      observedAt: new Date(),
+    });
+  }
+
+  async getStaleProducts(refreshedBefore: Date, limit: number): Promise<Product[]> {
+    const favorited = new Set(Array.from(this.favoritesItems.values()).map(f => f.productId));
+    const listed = new Set(Array.from(this.shoppingListItemsMap.values()).filter(i => !i.completed).map(i => i.productId));
+    const priority = (product: Product) => (favorited.has(product.id) ? 1 : 0) + (listed.has(product.id) ? 1 : 0);
+    const refreshedAt = (product: Product) => product.pricesRefreshedAt?.getTime() ?? 0;
+
+    return Array.from(this.products.values())
+      .filter(p => refreshedAt(p) < refreshedBefore.getTime())
+      .sort((a, b) => priority(b) - priority(a) || refreshedAt(a) - refreshedAt(b))
+      .slice(0, limit);
+  }
+
+  async upsertProductPrices(productId: number, offers: RetailerPriceInput[]): Promise<PriceChange[]> {
+    const changes: PriceChange[] = [];
+    const newOffers: RetailerPriceInput[] = [];
+    for (const offer of offers) {
+      const existing = Array.from(this.prices.values()).find(p =>
+        p.productId === productId && this.retailers.get(p.retailerId)?.name === offer.retailer
+      );
+      changes.push(toPriceChange(offer, existing));
+      if (!existing) {
+        newOffers.push(offer);
+        continue;
+      }
+
+      this.prices.set(existing.id, { ...existing, ...toPriceColumns(offer), updatedAt: new Date() });
+      this.recordPriceObservation(productId, existing.retailerId, offer);
+    }
+    await this.addProductPrices(productId, newOffers);
+    return changes;
+  }
+
+  async markPricesRefreshed(productId: number): Promise<void> {
+    const product = this.products.get(productId);
+    if (product) {
+      this.products.set(productId, { ...product, pricesRefreshedAt: new Date() });
+    }
+  }
+
+  async getPriceObservations(productId: number, since: Date): Promise<(PriceObservation & { retailer: Retailer })[]> {
+    return this.priceObservationsList
+      .filter(o => o.productId === productId && o.observedAt >= since)
+      .map(o => ({ ...o, retailer: this.retailers.get(o.retailerId)! }));
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRatesMap.values());
+  }
+
+  async replaceExchangeRates(rates: ExchangeRates, source: string): Promise<void> {
+    this.exchangeRatesMap = new Map(Object.entries(rates.rates).map(([currency, rate]) => [
+      currency,
+      { currency, base: rates.base, rate, source, updatedAt: new Date() }
+    ]));
+  }
+
+  async getPriceAlerts(userId: string): Promise<(PriceAlert & { product: ProductWithPrices })[]> {
+    const alerts = Array.from(this.priceAlertsMap.values())
+      .filter(alert => alert.userId === userId)
+      .reverse();
+    const result = [];
+
+    for (const alert of alerts) {
+      const product = await this.getProductById(alert.productId);
+      if (product) {
+        result.push({ ...alert, product });
+      }
+    }
+
+    return result;
+  }
+
+  async getPriceAlert(id: number): Promise<PriceAlert | undefined> {
+    return this.priceAlertsMap.get(id);
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return Array.from(this.priceAlertsMap.values()).filter(alert => alert.isActive);
+  }
+
+  async createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert> {
+    const newAlert: PriceAlert = {
+      id: this.currentPriceAlertId++,
+      ...alert,
+      currency: alert.currency ?? "USD",
+      isActive: alert.isActive ?? true,
+      createdAt: new Date(),
+      lastChecked: null,
+      lastTriggeredPriceMinor: null,
+    };
+    this.priceAlertsMap.set(newAlert.id, newAlert);
+    return newAlert;
+  }
+
+  async updatePriceAlert(id: number, updates: Partial<PriceAlert>): Promise<PriceAlert> {
+    const alert = this.priceAlertsMap.get(id);
+    if (!alert) throw new Error("Price alert not found");
+
+    const updatedAlert = { ...alert, ...updates };
+    this.priceAlertsMap.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  async deletePriceAlert(id: number): Promise<void> {
+    this.priceAlertsMap.delete(id);
+    this.priceAlertEventsList = this.priceAlertEventsList.filter(event => event.alertId !== id);
+  }
+
+  async addPriceAlertEvent(event: InsertPriceAlertEvent): Promise<PriceAlertEvent> {
+    const newEvent: PriceAlertEvent = {
+      id: this.currentPriceAlertEventId++,
+      ...event,
+      retailerId: event.retailerId ?? null,
+      currency: event.currency ?? "USD",
+      triggeredAt: new Date(),
+    };
+    this.priceAlertEventsList.push(newEvent);
+    return newEvent;
+  }
+
+  async getPriceAlertEvents(userId: string, since: Date): Promise<PriceAlertEvent[]> {
+    return this.priceAlertEventsList
+      .filter(event => event.userId === userId && event.triggeredAt >= since)
+      .reverse();
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const duplicate = notification.dedupeKey && Array.from(this.notificationsMap.values()).some(n =>
+      n.userId === notification.userId && n.channel === notification.channel && n.dedupeKey === notification.dedupeKey
+    );
+    if (duplicate) return undefined;
+
+    const newNotification: Notification = {
+      id: this.currentNotificationId++,
+      ...notification,
+      url: notification.url ?? null,
+      dedupeKey: notification.dedupeKey ?? null,
+      status: notification.status ?? "pending",
+      attempts: notification.attempts ?? 0,
+      nextAttemptAt: notification.nextAttemptAt ?? new Date(),
+      lastError: notification.lastError ?? null,
+      sentAt: notification.sentAt ?? null,
+      readAt: notification.readAt ?? null,
+      createdAt: new Date(),
+    };
+    this.notificationsMap.set(newNotification.id, newNotification);
+    return newNotification;
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<Notification[]> {
+    return Array.from(this.notificationsMap.values())
+      .filter(n => n.status === "pending" && n.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateNotification(id: number, updates: Partial<Notification>): Promise<void> {
+    const notification = this.notificationsMap.get(id);
+    if (notification) {
+      this.notificationsMap.set(id, { ...notification, ...updates });
+    }
+  }
+
+  async getInboxNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return Array.from(this.notificationsMap.values())
+      .filter(n => n.userId === userId && n.channel === "in_app")
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<Notification | undefined> {
+    const notification = this.notificationsMap.get(id);
+    if (!notification || notification.userId !== userId || notification.channel !== "in_app") return undefined;
+
+    const readNotification = { ...notification, readAt: new Date() };
+    this.notificationsMap.set(id, readNotification);
+    return readNotification;
+  }
+
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptionsMap.values()).filter(s => s.userId === userId);
+  }
+
+  async upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    const existing = this.pushSubscriptionsMap.get(subscription.endpoint);
+    const pushSubscription: PushSubscription = {
+      id: existing?.id ?? this.currentPushSubscriptionId++,
+      ...subscription,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.pushSubscriptionsMap.set(subscription.endpoint, pushSubscription);
+    return pushSubscription;
+  }
+
+  async removePushSubscription(endpoint: string): Promise<void> {
+    this.pushSubscriptionsMap.delete(endpoint);
+  }
+
+  async getLookupCacheEntries(barcode: string): Promise<LookupCacheEntry[]> {
+    return Array.from(this.lookupCacheMap.values()).filter(entry => entry.barcode === barcode);
+  }
+
+  async upsertLookupCacheEntry(entry: InsertLookupCacheEntry): Promise<LookupCacheEntry> {
+    const key = `${entry.barcode}:${entry.provider}`;
+    const existing = this.lookupCacheMap.get(key);
+    const cacheEntry: LookupCacheEntry = {
+      id: existing?.id ?? this.currentLookupCacheId++,
+      ...entry,
+      payload: entry.payload ?? null,
+      fetchedAt: new Date(),
+    };
+    this.lookupCacheMap.set(key, cacheEntry);
+    return cacheEntry;
+  }
+
+  async addScanHistory(owner: DataOwner, scan: Owned<InsertScanHistory>): Promise<ScanHistory> {
     const newScan: ScanHistory = {
       id: this.currentScanHistoryId++,
       ...scan,
+      ...ownerColumns(owner),
       bestPrice: scan.bestPrice ?? null,
       scannedAt: new Date()
     };
@@ -516,35 +1715,38 @@ export class MemStorage implements IStorage {
     return newScan;
   }
 
-  async getScanHistory(): Promise<ScanHistory[]> {
+  async getScanHistory(owner: DataOwner): Promise<ScanHistory[]> {
     return Array.from(this.scanHistoryItems.values())
+      .filter(scan => isOwnedBy(scan, owner))
       .sort((a, b) => new Date(b.scannedAt!).getTime() - new Date(a.scannedAt!).getTime());
   }
 
-  async clearScanHistory(): Promise<void> {
-    this.scanHistoryItems.clear();
+  async clearScanHistory(owner: DataOwner): Promise<void> {
+    for (const scan of Array.from(this.scanHistoryItems.values())) {
+      if (isOwnedBy(scan, owner)) this.scanHistoryItems.delete(scan.id);
+    }
   }
 
-  async addFavorite(favorite: InsertFavorite): Promise<Favorite> {
+  async addFavorite(owner: DataOwner, favorite: Owned<InsertFavorite>): Promise<Favorite> {
     const newFavorite: Favorite = {
       id: this.currentFavoriteId++,
       ...favorite,
-      userId: favorite.userId ?? null,
+      ...ownerColumns(owner),
       addedAt: new Date()
     };
     this.favoritesItems.set(newFavorite.id, newFavorite);
     return newFavorite;
   }
 
-  async removeFavorite(productId: number): Promise<void> {
-    const favorite = Array.from(this.favoritesItems.values()).find(f => f.productId === productId);
+  async removeFavorite(owner: DataOwner, productId: number): Promise<void> {
+    const favorite = Array.from(this.favoritesItems.values()).find(f => f.productId === productId && isOwnedBy(f, owner));
     if (favorite) {
       this.favoritesItems.delete(favorite.id);
     }
   }
 
-  async getFavorites(): Promise<(Favorite & { product: ProductWithPrices })[]> {
-    const favorites = Array.from(this.favoritesItems.values());
+  async getFavorites(owner: DataOwner): Promise<(Favorite & { product: ProductWithPrices })[]> {
+    const favorites = Array.from(this.favoritesItems.values()).filter(favorite => isOwnedBy(favorite, owner));
     const result = [];
 
     for (const favorite of favorites) {
@@ -570,11 +1772,11 @@ export class MemStorage implements IStorage {
     return result;
   }
 
-  async addShoppingListItem(item: InsertShoppingListItem): Promise<ShoppingListItem> {
+  async addShoppingListItem(owner: DataOwner, item: Owned<InsertShoppingListItem>): Promise<ShoppingListItem> {
     const newItem: ShoppingListItem = {
       id: this.currentShoppingListId++,
       ...item,
-      userId: item.userId ?? null,
+      ...ownerColumns(owner),
       quantity: item.quantity ?? null,
       completed: item.completed ?? null,
       addedAt: new Date()
@@ -583,21 +1785,28 @@ export class MemStorage implements IStorage {
     return newItem;
   }
 
-  async updateShoppingListItem(id: number, updates: Partial<ShoppingListItem>): Promise<ShoppingListItem> {
+  async updateShoppingListItem(
+    owner: DataOwner,
+    id: number,
+    updates: Partial<ShoppingListItem>
+  ): Promise<ShoppingListItem | undefined> {
     const item = this.shoppingListItemsMap.get(id);
-    if (!item) throw new Error("Shopping list item not found");
+    if (!item || !isOwnedBy(item, owner)) return undefined;
 
     const updatedItem = { ...item, ...updates };
     this.shoppingListItemsMap.set(id, updatedItem);
     return updatedItem;
   }
 
-  async removeShoppingListItem(id: number): Promise<void> {
-    this.shoppingListItemsMap.delete(id);
+  async removeShoppingListItem(owner: DataOwner, id: number): Promise<void> {
+    const item = this.shoppingListItemsMap.get(id);
+    if (item && isOwnedBy(item, owner)) {
+      this.shoppingListItemsMap.delete(id);
+    }
   }
 
-  async getShoppingList(): Promise<(ShoppingListItem & { product: ProductWithPrices })[]> {
-    const items = Array.from(this.shoppingListItemsMap.values());
+  async getShoppingList(owner: DataOwner): Promise<(ShoppingListItem & { product: ProductWithPrices })[]> {
+    const items = Array.from(this.shoppingListItemsMap.values()).filter(item => isOwnedBy(item, owner));
     const result = [];
 
     for (const item of items) {
@@ -623,25 +1832,27 @@ export class MemStorage implements IStorage {
     return result;
   }
 
-  async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+  async addChatMessage(owner: DataOwner, message: Owned<InsertChatMessage>): Promise<ChatMessage> {
     const newMessage: ChatMessage = {
       id: this.currentChatMessageId++,
       ...message,
+      ...ownerColumns(owner),
+      response: message.response ?? null,
       timestamp: new Date(),
     };
     this.chatMessagesMap.set(newMessage.id, newMessage);
     return newMessage;
   }
 
-  async getChatHistory(userId: string): Promise<ChatMessage[]> {
+  async getChatHistory(owner: DataOwner): Promise<ChatMessage[]> {
     return Array.from(this.chatMessagesMap.values())
-      .filter(message => message.userId === userId)
+      .filter(message => isOwnedBy(message, owner))
       .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
   }
 
-  async clearChatHistory(userId: string): Promise<void> {
+  async clearChatHistory(owner: DataOwner): Promise<void> {
     const messagesToDelete = Array.from(this.chatMessagesMap.entries())
-      .filter(([_, message]) => message.userId === userId)
+      .filter(([_, message]) => isOwnedBy(message, owner))
       .map(([id, _]) => id);
     
     messagesToDelete.forEach(id => {
@@ -649,6 +1860,42 @@ export class MemStorage implements IStorage {
     });
   }
 
+  async mergeDeviceData(deviceId: string, userId: string): Promise<void> {
+    const device: DataOwner = { deviceId };
+    const account: DataOwner = { userId };
+    const toUser = { userId, deviceId: null };
+
+    for (const scan of Array.from(this.scanHistoryItems.values())) {
+      if (isOwnedBy(scan, device)) Object.assign(scan, toUser);
+    }
+    for (const message of Array.from(this.chatMessagesMap.values())) {
+      if (isOwnedBy(message, device)) Object.assign(message, toUser);
+    }
+
+    for (const favorite of Array.from(this.favoritesItems.values())) {
+      if (!isOwnedBy(favorite, device)) continue;
+      const alreadyFavorited = Array.from(this.favoritesItems.values())
+        .some(f => f.productId === favorite.productId && isOwnedBy(f, account));
+      if (alreadyFavorited) {
+        this.favoritesItems.delete(favorite.id);
+      } else {
+        Object.assign(favorite, toUser);
+      }
+    }
+
+    for (const item of Array.from(this.shoppingListItemsMap.values())) {
+      if (!isOwnedBy(item, device)) continue;
+      const existing = Array.from(this.shoppingListItemsMap.values())
+        .find(i => i.productId === item.productId && isOwnedBy(i, account));
+      if (existing) {
+        Object.assign(existing, mergedShoppingListItem(existing, item));
+        this.shoppingListItemsMap.delete(item.id);
+      } else {
+        Object.assign(item, toUser);
+      }
+    }
+  }
+
   // Advertisement operations (mock implementation for development)
   async getActiveAds(placement: string): Promise<Advertisement[]> {
     // Return ads for the specified placement
@@ -703,106 +1950,122 @@ export class MemStorage implements IStorage {
   }
 
   // User subscription methods
-  async updateUserSubscription(userId: string, updates: { subscriptionTier?: string; subscriptionExpiresAt?: Date | null }): Promise<void> {
-    await db.update(users)
-      .set({
-        subscriptionTier: updates.subscriptionTier,
-        subscriptionExpiresAt: updates.subscriptionExpiresAt,
-        updatedAt: new Date()
-      })
-      .where(eq(users.id, userId));
+  async updateUserSubscription(userId: string, updates: SubscriptionUpdate): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+    this.users.set(userId, { ...user, ...updates, updatedAt: new Date() });
   }
 
-  async resetDailyScanCount(userId: string): Promise<void> {
-    await db.update(users)
-      .set({
-        dailyScansCount: 0,
-        lastScanResetDate: new Date()
-      })
-      .where(eq(users.id, userId));
+  async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updated = { ...user, ...preferences, updatedAt: new Date() };
+    this.users.set(userId, updated);
+    return updated;
   }
 
-  async incrementDailyScanCount(userId: string): Promise<void> {
-    await db.update(users)
-      .set({
-        dailyScansCount: sql`${users.dailyScansCount} + 1`
-      })
-      .where(eq(users.id, userId));
+  async getSubscriptionsDue(before: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user =>
+      user.subscriptionTier && user.subscriptionTier !== "free" &&
+      user.subscriptionExpiresAt && user.subscriptionExpiresAt <= before
+    );
   }
 
-  // Retailer methods
-  async getRetailerById(id: number): Promise<Retailer | undefined> {
-    const [retailer] = await db.select().from(retailers).where(eq(retailers.id, id));
-    return retailer;
+  async resetDailyScanCount(userId: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+    this.users.set(userId, { ...user, dailyScansCount: 0, dailyScannedBarcodes: [], lastScanResetDate: new Date() });
   }
 
-  // Affiliate tracking methods
-  async trackAffiliateClick(click: InsertAffiliateClick): Promise<AffiliateClick> {
-    const [affiliateClick] = await db.insert(affiliateClicks)
-      .values(click)
-      .returning();
-    return affiliateClick;
-  }
+  async countDailyScan(userId: string, dailyLimit: number, barcode?: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) return false;
+    if (barcode && user.dailyScannedBarcodes.includes(barcode)) return true;
+    if ((user.dailyScansCount || 0) >= dailyLimit) return false;
 
-  async getAffiliateClick(id: number): Promise<AffiliateClick | undefined> {
-    const [click] = await db.select().from(affiliateClicks).where(eq(affiliateClicks.id, id));
-    return click;
+    this.users.set(userId, {
+      ...user,
+      dailyScansCount: (user.dailyScansCount || 0) + 1,
+      dailyScannedBarcodes: barcode ? [...user.dailyScannedBarcodes, barcode] : user.dailyScannedBarcodes
+    });
+    return true;
+  }
+
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    return Array.from(this.subscriptionPlansMap.values())
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
+  }
+
+  async upsertSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
+    // As with the database upsert, fields left out keep their current values
+    const existing = this.subscriptionPlansMap.get(plan.id);
+    const saved: SubscriptionPlan = {
+      ...plan,
+      currency: plan.currency ?? existing?.currency ?? "USD",
+      interval: plan.interval ?? existing?.interval ?? "month",
+      features: plan.features ?? existing?.features ?? [],
+      entitlements: plan.entitlements ?? existing?.entitlements ?? [],
+      dailyScanLimit: plan.dailyScanLimit !== undefined ? plan.dailyScanLimit : existing?.dailyScanLimit ?? null,
+      badge: plan.badge !== undefined ? plan.badge : existing?.badge ?? null,
+      sortOrder: plan.sortOrder ?? existing?.sortOrder ?? 0,
+      active: plan.active ?? existing?.active ?? true,
+      updatedAt: new Date()
+    };
+    this.subscriptionPlansMap.set(saved.id, saved);
+    return saved;
   }
 
-  async updateAffiliateClick(id: number, updates: Partial<AffiliateClick>): Promise<void> {
-    await db.update(affiliateClicks)
-      .set(updates)
-      .where(eq(affiliateClicks.id, id));
+  async addMissingSubscriptionPlans(plans: InsertSubscriptionPlan[]): Promise<void> {
+    for (const plan of plans) {
+      if (!this.subscriptionPlansMap.has(plan.id)) await this.upsertSubscriptionPlan(plan);
+    }
   }
 
-  async getAffiliateClicksRange(startDate: Date, endDate: Date): Promise<AffiliateClick[]> {
-    return await db.select()
-      .from(affiliateClicks)
-      .where(sql`${affiliateClicks.clickedAt} >= ${startDate} AND ${affiliateClicks.clickedAt} <= ${endDate}`);
+  async createSubscriptionPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment> {
+    const created: SubscriptionPayment = {
+      id: this.currentSubscriptionPaymentId++,
+      ...payment,
+      currency: payment.currency ?? "USD",
+      paymentMethod: payment.paymentMethod ?? null,
+      paymentId: payment.paymentId ?? null,
+      status: payment.status ?? "pending",
+      kind: payment.kind ?? "purchase",
+      previousPlanType: payment.previousPlanType ?? null,
+      isRecurring: payment.isRecurring ?? true,
+      createdAt: new Date()
+    };
+    this.subscriptionPaymentsMap.set(created.id, created);
+    return created;
   }
 
-  // Revenue metrics methods
-  async getRevenueMetricsByDate(date: string): Promise<RevenueMetric | undefined> {
-    const [metric] = await db.select()
-      .from(revenueMetrics)
-      .where(sql`DATE(${revenueMetrics.date}) = ${date}`);
-    return metric;
+  async getSubscriptionPayment(id: number): Promise<SubscriptionPayment | undefined> {
+    return this.subscriptionPaymentsMap.get(id);
   }
 
-  async createRevenueMetric(metric: InsertRevenueMetric): Promise<RevenueMetric> {
-    const [revenueMetric] = await db.insert(revenueMetrics)
-      .values(metric)
-      .returning();
-    return revenueMetric;
+  async getSubscriptionPaymentByPaymentId(paymentMethod: string, paymentId: string): Promise<SubscriptionPayment | undefined> {
+    return Array.from(this.subscriptionPaymentsMap.values())
+      .find(payment => payment.paymentMethod === paymentMethod && payment.paymentId === paymentId);
   }
 
-  async updateRevenueMetrics(id: number, updates: Partial<RevenueMetric>): Promise<void> {
-    await db.update(revenueMetrics)
-      .set(updates)
-      .where(eq(revenueMetrics.id, id));
+  async getSubscriptionPayments(userId: string): Promise<SubscriptionPayment[]> {
+    return Array.from(this.subscriptionPaymentsMap.values())
+      .filter(payment => payment.userId === userId)
+      .sort((a, b) => b.id - a.id);
   }
 
-  async getRevenueMetricsRange(startDate: Date, endDate: Date): Promise<RevenueMetric[]> {
-    return await db.select()
-      .from(revenueMetrics)
-      .where(sql`${revenueMetrics.date} >= ${startDate} AND ${revenueMetrics.date} <= ${endDate}`)
-      .orderBy(revenueMetrics.date);
-  }
+  async updateSubscriptionPayment(
+    id: number,
+    updates: Partial<SubscriptionPayment>,
+    fromStatuses?: string[]
+  ): Promise<SubscriptionPayment | undefined> {
+    const payment = this.subscriptionPaymentsMap.get(id);
+    if (!payment || (fromStatuses && !fromStatuses.includes(payment.status ?? ""))) return undefined;
 
-  async getActiveSubscribersCount(): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` })
-      .from(users)
-      .where(sql`${users.subscriptionTier} != 'free' AND (${users.subscriptionExpiresAt} IS NULL OR ${users.subscriptionExpiresAt} > NOW())`);
-    return result[0]?.count || 0;
+    const updated = { ...payment, ...updates };
+    this.subscriptionPaymentsMap.set(id, updated);
+    return updated;
   }
 
-  // Feature usage tracking
-  async trackFeatureUsage(usage: InsertFeatureUsage): Promise<FeatureUsage> {
-    const [featureUsageRecord] = await db.insert(featureUsage)
-      .values(usage)
-      .returning();
-    return featureUsageRecord;
-  }
 }
 
 export const storage = new DatabaseStorage();
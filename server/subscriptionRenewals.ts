@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import { paymentService } from "./payments";
+import { notificationService } from "./notifications";
+import { EXPIRY_WARNING_DAYS, LAPSED_SUBSCRIPTION, subscriptionAccessEnds } from "./monetization";
+import type { User } from "@shared/schema";
+
+// Background job for paid plans. It charges renewals when they fall due (PaymentService
+// retries failed ones through the grace period), warns users whose plan is about to end
+// without renewing, and moves lapsed accounts back to the free plan.
+
+const INTERVAL_MS = parseInt(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MINUTES || "15") * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RenewalRunSummary {
+  renewed: number;
+  failed: number;
+  expired: number;
+}
+
+export class SubscriptionRenewalScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error("Subscription renewal error:", error));
+    }, INTERVAL_MS);
+    this.timer.unref();
+    console.log(`Subscription renewals checked every ${INTERVAL_MS / 60000} minutes`);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async runOnce(now = new Date()): Promise<RenewalRunSummary> {
+    const summary: RenewalRunSummary = { renewed: 0, failed: 0, expired: 0 };
+
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      // Renewals are due well inside the warning window, so this covers every case
+      const due = await storage.getSubscriptionsDue(new Date(now.getTime() + EXPIRY_WARNING_DAYS * DAY_MS));
+
+      for (const user of due) {
+        try {
+          await this.processSubscription(user, now, summary);
+        } catch (error) {
+          console.error(`Subscription renewal error for user ${user.id}:`, error);
+        }
+      }
+
+      if (summary.renewed > 0 || summary.failed > 0 || summary.expired > 0) {
+        console.log(`Subscriptions: renewed ${summary.renewed}, failed ${summary.failed}, expired ${summary.expired}`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processSubscription(user: User, now: Date, summary: RenewalRunSummary): Promise<void> {
+    if (user.subscriptionAutoRenew && user.subscriptionNextRenewalAt && user.subscriptionNextRenewalAt <= now) {
+      const payment = await paymentService.renew(user);
+      if (payment?.status === "completed") {
+        summary.renewed++;
+        return;
+      }
+      summary.failed++;
+      user = (await storage.getUser(user.id)) ?? user;
+    }
+
+    const expiresAt = user.subscriptionExpiresAt;
+    const accessEnds = subscriptionAccessEnds(user);
+    if (!expiresAt || !accessEnds) return;
+
+    if (accessEnds <= now) {
+      await storage.updateUserSubscription(user.id, LAPSED_SUBSCRIPTION);
+      await notificationService.enqueue(user.id, {
+        type: "subscription_expired",
+        title: "Your subscription has ended",
+        body: `Your ${user.subscriptionTier} plan has expired and your account is back on the free plan.`,
+        dedupeKey: `subscription_expired:${expiresAt.toISOString()}`
+      });
+      summary.expired++;
+      return;
+    }
+
+    // Plans that renew themselves need no warning
+    if (!user.subscriptionAutoRenew && expiresAt > now) {
+      const daysRemaining = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+      await notificationService.enqueue(user.id, {
+        type: "subscription_expiring",
+        title: "Your subscription is ending soon",
+        body: `Your ${user.subscriptionTier} plan expires in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"}.`,
+        dedupeKey: `subscription_expiring:${expiresAt.toISOString()}`
+      });
+    }
+  }
+}
+
+export const subscriptionRenewalScheduler = new SubscriptionRenewalScheduler();
@@ -0,0 +1,48 @@
+import type { Request } from "express";
+
+// Time zone arithmetic on top of Intl, for day boundaries that follow the user's clock
+// rather than the server's.
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The browser's IANA zone, sent by the client as X-Time-Zone; UTC when absent or unknown
+export function requestTimeZone(req: Request): string {
+  const timeZone = req.get("x-time-zone");
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric"
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+// The first instant of the day after `date`, as seen in the time zone
+export function startOfNextLocalDay(date: Date, timeZone: string): Date {
+  const wallClock = new Date(date.getTime() + zoneOffsetMs(date, timeZone));
+  const nextMidnight = Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate() + 1);
+
+  // Second pass picks up a DST change between now and midnight
+  let instant = nextMidnight - zoneOffsetMs(new Date(nextMidnight), timeZone);
+  instant = nextMidnight - zoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
@@ -0,0 +1,100 @@
+// GTIN (UPC/EAN) validation and normalization shared by the server and client.
+// Every barcode is canonicalized to a 14-digit GTIN so the same product scanned as
+// UPC-A, UPC-E, EAN-13 or GTIN-14 maps to a single stored record.
+
+export type GtinFormat = "UPC-A" | "UPC-E" | "EAN-8" | "EAN-13" | "GTIN-14";
+
+export type GtinParseResult =
+  | { valid: true; gtin14: string; format: GtinFormat }
+  | { valid: false; error: string };
+
+// Standard GS1 mod-10 check digit for the digits preceding the check digit
+export function calculateCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3, 1, 3, ... starting from the rightmost digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += parseInt(digits[i], 10) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d{2,}$/.test(code)) return false;
+  return calculateCheckDigit(code.slice(0, -1)) === parseInt(code[code.length - 1], 10);
+}
+
+// Expands an 8-digit UPC-E code (number system, 6 digits, check digit) to UPC-A
+export function expandUpcE(upce: string): string {
+  if (!/^[01]\d{7}$/.test(upce)) {
+    throw new Error("UPC-E codes must be 8 digits starting with 0 or 1");
+  }
+
+  const numberSystem = upce[0];
+  const [d1, d2, d3, d4, d5, d6] = upce.slice(1, 7).split("");
+  const check = upce[7];
+  let body: string;
+
+  switch (d6) {
+    case "0":
+    case "1":
+    case "2":
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case "3":
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case "4":
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  return `${numberSystem}${body}${check}`;
+}
+
+export function parseGtin(input: string): GtinParseResult {
+  const code = (input || "").replace(/[\s-]/g, "");
+
+  if (!code) {
+    return { valid: false, error: "Barcode is required" };
+  }
+  if (!/^\d+$/.test(code)) {
+    return { valid: false, error: "Barcode must contain only digits" };
+  }
+
+  if (code.length === 8) {
+    // Scanners emit UPC-E for number systems 0 and 1; anything else is EAN-8
+    if (/^[01]/.test(code)) {
+      const upca = expandUpcE(code);
+      if (hasValidCheckDigit(upca)) {
+        return { valid: true, gtin14: upca.padStart(14, "0"), format: "UPC-E" };
+      }
+    }
+    if (hasValidCheckDigit(code)) {
+      return { valid: true, gtin14: code.padStart(14, "0"), format: "EAN-8" };
+    }
+    return { valid: false, error: "Invalid check digit for 8-digit barcode" };
+  }
+
+  const formats: Record<number, GtinFormat> = { 12: "UPC-A", 13: "EAN-13", 14: "GTIN-14" };
+  const format = formats[code.length];
+  if (!format) {
+    return { valid: false, error: "Barcode must be 8, 12, 13 or 14 digits" };
+  }
+  if (!hasValidCheckDigit(code)) {
+    return { valid: false, error: `Invalid check digit for ${format} barcode` };
+  }
+
+  return { valid: true, gtin14: code.padStart(14, "0"), format };
+}
+
+// Shortest conventional form of a GTIN-14 (EAN-8, UPC-A, EAN-13 or GTIN-14),
+// which is what upstream product databases expect
+export function toLookupCode(gtin14: string): string {
+  if (gtin14.startsWith("000000")) return gtin14.slice(6);
+  if (gtin14.startsWith("00")) return gtin14.slice(2);
+  if (gtin14.startsWith("0")) return gtin14.slice(1);
+  return gtin14;
+}
@@ -0,0 +1,81 @@
+// Landed cost: what an offer actually costs once shipping and sales tax are added.
+// Shared by the server (scan results, best-price picks) and the client (sorting).
+
+import { addMoney, money, multiplyMoney, zeroMoney, type Money } from "./money";
+
+// Combined state and average local sales tax by US state, as a fraction of the item price
+export const SALES_TAX_RATES: Record<string, number> = {
+  AK: 0.0182, AL: 0.0929, AR: 0.0945, AZ: 0.0837, CA: 0.0885, CO: 0.0781, CT: 0.0635,
+  DC: 0.06, DE: 0, FL: 0.0702, GA: 0.0738, HI: 0.045, IA: 0.0694, ID: 0.0603,
+  IL: 0.0886, IN: 0.07, KS: 0.0865, KY: 0.06, LA: 0.0956, MA: 0.0625, MD: 0.06,
+  ME: 0.055, MI: 0.06, MN: 0.0804, MO: 0.0839, MS: 0.0706, MT: 0, NC: 0.07,
+  ND: 0.0704, NE: 0.0697, NH: 0, NJ: 0.066, NM: 0.0762, NV: 0.0824, NY: 0.0853,
+  OH: 0.0724, OK: 0.0899, OR: 0, PA: 0.0634, RI: 0.07, SC: 0.0749, SD: 0.0611,
+  TN: 0.0955, TX: 0.082, UT: 0.0719, VA: 0.0577, VT: 0.063, WA: 0.0938, WI: 0.0543,
+  WV: 0.0659, WY: 0.0544
+};
+
+export interface FreeShippingRule {
+  threshold?: Money; // Orders at or above this ship free
+  membership?: string; // Members ship free regardless of order size
+}
+
+export const FREE_SHIPPING_RULES: Record<string, FreeShippingRule> = {
+  Amazon: { threshold: money(3500, "USD"), membership: "amazon_prime" },
+  Walmart: { threshold: money(3500, "USD"), membership: "walmart_plus" },
+  Target: { threshold: money(3500, "USD"), membership: "target_circle_360" },
+  "Best Buy": { threshold: money(3500, "USD"), membership: "my_best_buy_plus" },
+  Costco: { threshold: money(7500, "USD"), membership: "costco_executive" },
+  "Home Depot": { threshold: money(4500, "USD") },
+  "Lowe's": { threshold: money(4500, "USD") }
+};
+
+export const MEMBERSHIPS = Array.from(
+  new Set(Object.values(FREE_SHIPPING_RULES).flatMap(rule => (rule.membership ? [rule.membership] : [])))
+);
+
+export interface LandedCostOptions {
+  region?: string | null; // US state code; no tax is added when unknown
+  memberships?: string[];
+}
+
+export interface LandedCost {
+  item: Money;
+  shipping: Money | null; // null when the retailer's shipping cost is unknown
+  tax: Money;
+  taxRate: number;
+  total: Money; // Unknown shipping counts as zero
+  freeShipping?: "threshold" | "membership";
+}
+
+export function salesTaxRate(region: string | null | undefined): number {
+  if (!region) return 0;
+  return SALES_TAX_RATES[region.toUpperCase()] ?? 0;
+}
+
+// Sales tax is charged on the item only; thresholds only apply in the rule's own currency
+export function landedCost(
+  offer: { retailer: string; price: Money; shipping: Money | null },
+  options: LandedCostOptions = {}
+): LandedCost {
+  const rule = FREE_SHIPPING_RULES[offer.retailer];
+  let shipping = offer.shipping;
+  let freeShipping: LandedCost["freeShipping"];
+
+  if (rule?.membership && options.memberships?.includes(rule.membership)) {
+    freeShipping = "membership";
+  } else if (
+    rule?.threshold &&
+    rule.threshold.currency === offer.price.currency &&
+    offer.price.amountMinor >= rule.threshold.amountMinor
+  ) {
+    freeShipping = "threshold";
+  }
+  if (freeShipping) shipping = zeroMoney(offer.price.currency);
+
+  const taxRate = salesTaxRate(options.region);
+  const tax = multiplyMoney(offer.price, taxRate);
+  const total = addMoney(addMoney(offer.price, shipping ?? zeroMoney(offer.price.currency)), tax);
+
+  return { item: offer.price, shipping, tax, taxRate, total, freeShipping };
+}
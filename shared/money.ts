@@ -0,0 +1,191 @@
+// Money is an integer amount of minor units (cents for USD) plus an ISO 4217 currency code.
+// Prices are stored and compared this way; strings only appear at the edges (provider
+// responses in, formatted display text out).
+
+export interface Money {
+  amountMinor: number;
+  currency: string;
+}
+
+export class CurrencyMismatchError extends Error {
+  constructor(a: string, b: string) {
+    super(`Cannot combine ${a} and ${b} amounts`);
+    this.name = "CurrencyMismatchError";
+  }
+}
+
+// Currencies whose minor unit is not hundredths
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  JPY: 0, KRW: 0, VND: 0, CLP: 0, ISK: 0, UGX: 0,
+  BHD: 3, KWD: 3, OMR: 3, JOD: 3, TND: 3
+};
+
+// Longer symbols first so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["US$", "USD"], ["C$", "CAD"], ["CA$", "CAD"], ["A$", "AUD"], ["AU$", "AUD"],
+  ["€", "EUR"], ["£", "GBP"], ["¥", "JPY"], ["₹", "INR"], ["₩", "KRW"], ["$", "USD"]
+];
+
+export function minorUnitDigits(currency: string): number {
+  return MINOR_UNIT_DIGITS[currency.toUpperCase()] ?? 2;
+}
+
+export function money(amountMinor: number, currency = "USD"): Money {
+  if (!Number.isInteger(amountMinor)) {
+    throw new Error(`Money amounts must be whole minor units, got ${amountMinor}`);
+  }
+  return { amountMinor, currency: currency.toUpperCase() };
+}
+
+export function zeroMoney(currency = "USD"): Money {
+  return money(0, currency);
+}
+
+// From a major-unit number such as 12.99 (upstream APIs that already return numbers)
+export function fromMajor(amount: number, currency = "USD"): Money {
+  return money(Math.round(amount * 10 ** minorUnitDigits(currency)), currency);
+}
+
+export function toMajor(value: Money): number {
+  return value.amountMinor / 10 ** minorUnitDigits(value.currency);
+}
+
+// Plain decimal string without symbol or grouping, e.g. "1299.00"
+export function toDecimalString(value: Money): string {
+  return toMajor(value).toFixed(minorUnitDigits(value.currency));
+}
+
+export function formatMoney(value: Money, locale = "en-US"): string {
+  const digits = minorUnitDigits(value.currency);
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: value.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(toMajor(value));
+}
+
+// ISO codes recognised when written out in price text, e.g. "12.99 CAD"
+const CURRENCY_CODES = new Set([
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "JPY", "CNY", "INR", "KRW", "MXN", "BRL",
+  "CHF", "SEK", "NOK", "DKK", "PLN", ...Object.keys(MINOR_UNIT_DIGITS)
+]);
+
+function detectCurrency(text: string): string | undefined {
+  const code = (text.match(/\b[A-Z]{3}\b/g) || []).find(c => CURRENCY_CODES.has(c));
+  if (code) return code;
+  return CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))?.[1];
+}
+
+// Splits "1,299.00", "1.299,00", "12,99" or "1299" into whole and fractional digits
+function splitDecimal(numeric: string): { whole: string; fraction: string } {
+  const lastDot = numeric.lastIndexOf(".");
+  const lastComma = numeric.lastIndexOf(",");
+  let decimalSeparator: string | null = null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalSeparator = lastDot > lastComma ? "." : ",";
+  } else if (lastComma >= 0) {
+    // A single comma followed by anything but three digits is a decimal comma
+    const commas = numeric.split(",").length - 1;
+    decimalSeparator = commas === 1 && numeric.length - lastComma - 1 !== 3 ? "," : null;
+  } else if (lastDot >= 0) {
+    decimalSeparator = numeric.split(".").length - 1 === 1 ? "." : null;
+  }
+
+  if (!decimalSeparator) {
+    return { whole: numeric.replace(/[.,]/g, ""), fraction: "" };
+  }
+  const index = numeric.lastIndexOf(decimalSeparator);
+  return {
+    whole: numeric.slice(0, index).replace(/[.,]/g, ""),
+    fraction: numeric.slice(index + 1)
+  };
+}
+
+// Parses display prices like "$1,299.00", "€12,99", "12.99 USD" or "¥500".
+// Returns null when the text holds no amount.
+export function parseMoney(text: string | null | undefined, defaultCurrency = "USD"): Money | null {
+  if (!text) return null;
+  return parseAmount(text, detectCurrency(text) ?? defaultCurrency);
+}
+
+// Like parseMoney, but for text whose currency is already known (e.g. a provider's
+// currency field), so an ambiguous "$" is not read as USD
+export function parseAmount(text: string | null | undefined, currency: string): Money | null {
+  if (!text) return null;
+
+  currency = currency.toUpperCase();
+  const numeric = text.replace(/[^0-9.,]/g, "");
+  if (!/\d/.test(numeric)) return null;
+
+  const digits = minorUnitDigits(currency);
+  const { whole, fraction } = splitDecimal(numeric);
+  const padded = fraction.padEnd(digits + 1, "0");
+  let amountMinor = parseInt(whole || "0", 10) * 10 ** digits + (digits > 0 ? parseInt(padded.slice(0, digits), 10) : 0);
+  if (parseInt(padded[digits], 10) >= 5) {
+    amountMinor += 1;
+  }
+
+  const negative = /^\s*-/.test(text);
+  return money(negative ? -amountMinor : amountMinor, currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amountMinor + b.amountMinor, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amountMinor - b.amountMinor, a.currency);
+}
+
+export function multiplyMoney(value: Money, factor: number): Money {
+  return money(Math.round(value.amountMinor * factor), value.currency);
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.amountMinor - b.amountMinor;
+}
+
+export function sumMoney(values: Money[], currency = "USD"): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+export function minMoney(values: Money[]): Money | null {
+  return values.reduce<Money | null>((lowest, value) => (!lowest || compareMoney(value, lowest) < 0 ? value : lowest), null);
+}
+
+export function maxMoney(values: Money[]): Money | null {
+  return values.reduce<Money | null>((highest, value) => (!highest || compareMoney(value, highest) > 0 ? value : highest), null);
+}
+
+// Exchange rates as units of each currency per one unit of the base currency
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+function rateFor(currency: string, exchangeRates: ExchangeRates): number | undefined {
+  return currency === exchangeRates.base ? 1 : exchangeRates.rates[currency];
+}
+
+// Converts through the base currency; null when either rate is unknown
+export function convertMoney(value: Money, to: string, exchangeRates: ExchangeRates): Money | null {
+  to = to.toUpperCase();
+  if (value.currency === to) return value;
+
+  const fromRate = rateFor(value.currency, exchangeRates);
+  const toRate = rateFor(to, exchangeRates);
+  if (!fromRate || !toRate) return null;
+
+  return fromMajor((toMajor(value) / fromRate) * toRate, to);
+}
@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, doublePrecision, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { Money } from "./money";
+import { MEMBERSHIPS, SALES_TAX_RATES, type LandedCost } from "./landedCost";
 
 // Session storage table for authentication
 export const sessions = pgTable(
@@ -23,12 +25,46 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   subscriptionTier: varchar("subscription_tier").default("free"), // free, premium, business
   subscriptionExpiresAt: timestamp("subscription_expires_at"),
+  subscriptionAutoRenew: boolean("subscription_auto_renew").default(false), // Off once cancelled; the plan then ends at subscriptionExpiresAt
+  subscriptionPaymentMethod: varchar("subscription_payment_method"), // Gateway holding the saved payment method
+  subscriptionPaymentToken: text("subscription_payment_token"), // The gateway's id for it, e.g. a PayPal vault id
+  subscriptionNextRenewalAt: timestamp("subscription_next_renewal_at"), // Next renewal charge attempt
+  subscriptionRenewalAttempts: integer("subscription_renewal_attempts").default(0), // Failed renewal charges since the last success
+  subscriptionCreditMinor: integer("subscription_credit_minor").default(0), // Unused time from a downgrade, taken off the next renewal
+  subscriptionRenewalPlan: varchar("subscription_renewal_plan"), // Plan the next renewal switches to, e.g. after choosing yearly billing
   dailyScansCount: integer("daily_scans_count").default(0),
   lastScanResetDate: timestamp("last_scan_reset_date").defaultNow(),
+  dailyScannedBarcodes: jsonb("daily_scanned_barcodes").$type<string[]>().notNull().default([]), // Products counted today; looking them up again is free
+  preferredCurrency: varchar("preferred_currency", { length: 3 }).default("USD"), // Prices are shown converted to this
+  region: varchar("region", { length: 2 }), // US state whose sales tax landed costs include
+  memberships: jsonb("memberships").$type<string[]>().notNull().default([]), // Retailer memberships with free shipping, e.g. amazon_prime
+  passwordHash: varchar("password_hash"), // scrypt hash; null for accounts that only use magic links
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Accounts at OpenID Connect providers, keyed by the provider's subject identifier
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    provider: varchar("provider").notNull(), // Id of the configured provider, e.g. "google"
+    subject: varchar("subject").notNull(), // The ID token's `sub` claim
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_identities_provider_subject").on(table.provider, table.subject)],
+);
+
+// One-time email login links; only a hash of the token is stored
+export const loginTokens = pgTable("login_tokens", {
+  tokenHash: varchar("token_hash").primaryKey(),
+  email: varchar("email").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
   barcode: text("barcode").notNull().unique(),
@@ -42,6 +78,8 @@ export const products = pgTable("products", {
   sustainabilityCertifications: text("sustainability_certifications").array(), // Organic, Fair Trade, etc.
   packagingType: text("packaging_type"), // Plastic, Cardboard, Glass, etc.
   isEcoFriendly: boolean("is_eco_friendly").default(false),
+  dataSources: jsonb("data_sources").$type<ProductProvenance>(), // Which lookup source supplied each field
+  pricesRefreshedAt: timestamp("prices_refreshed_at").defaultNow(), // Last time pricing providers were queried
 });
 
 export const retailers = pgTable("retailers", {
@@ -50,62 +88,140 @@ export const retailers = pgTable("retailers", {
   logo: text("logo"),
   affiliateProgram: boolean("affiliate_program").default(false),
   affiliateCommissionRate: text("affiliate_commission_rate"), // e.g., "3.5%"
-  affiliateBaseUrl: text("affiliate_base_url"), // Base URL for affiliate links
+  affiliateNetwork: varchar("affiliate_network"), // Link builder: amazon, impact, cj or template
+  affiliateBaseUrl: text("affiliate_base_url"), // Impact/CJ tracking link, or the URL template for "template"
+  affiliateTrackingId: text("affiliate_tracking_id"), // e.g. the Amazon Associates tag
 });
 
 export const prices = pgTable("prices", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull().references(() => products.id),
   retailerId: integer("retailer_id").notNull().references(() => retailers.id),
-  price: text("price").notNull(),
+  priceMinor: integer("price_minor").notNull(), // Minor units of currency, e.g. cents
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
   stock: text("stock"),
   url: text("url"),
+  shippingMinor: integer("shipping_minor"), // 0 for free shipping; null when the source did not say
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const scanHistory = pgTable("scan_history", {
-  id: serial("id").primaryKey(),
-  barcode: text("barcode").notNull(),
-  productName: text("product_name").notNull(),
-  scannedAt: timestamp("scanned_at").defaultNow(),
-  bestPrice: text("best_price"),
-});
+// Append-only log of every price seen for a product, kept for history charts
+export const priceObservations = pgTable(
+  "price_observations",
+  {
+    id: serial("id").primaryKey(),
+    productId: integer("product_id").notNull().references(() => products.id),
+    retailerId: integer("retailer_id").notNull().references(() => retailers.id),
+    amountMinor: integer("amount_minor").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    availability: text("availability"),
+    source: varchar("source"), // Lookup provider or merchant API that reported the price
+    observedAt: timestamp("observed_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_price_observations_product_observed").on(table.productId, table.observedAt)],
+);
 
-export const favorites = pgTable("favorites", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").references(() => users.id),
-  productId: integer("product_id").notNull().references(() => products.id),
-  addedAt: timestamp("added_at").defaultNow(),
-});
+// Scan history, favorites and shopping list items belong to a signed-in user or, for
+// anonymous visitors, to the device id kept in their session
+export const scanHistory = pgTable(
+  "scan_history",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").references(() => users.id),
+    deviceId: varchar("device_id"),
+    barcode: text("barcode").notNull(),
+    productName: text("product_name").notNull(),
+    scannedAt: timestamp("scanned_at").defaultNow(),
+    bestPrice: text("best_price"),
+  },
+  (table) => [
+    index("IDX_scan_history_user").on(table.userId),
+    index("IDX_scan_history_device").on(table.deviceId),
+  ],
+);
 
-export const shoppingListItems = pgTable("shopping_list_items", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").references(() => users.id),
-  productId: integer("product_id").notNull().references(() => products.id),
-  quantity: integer("quantity").default(1),
-  unitPrice: varchar("unit_price"), // User-defined price override
-  completed: boolean("completed").default(false),
-  addedAt: timestamp("added_at").defaultNow(),
-});
+export const favorites = pgTable(
+  "favorites",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").references(() => users.id),
+    deviceId: varchar("device_id"),
+    productId: integer("product_id").notNull().references(() => products.id),
+    addedAt: timestamp("added_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_favorites_user").on(table.userId),
+    index("IDX_favorites_device").on(table.deviceId),
+  ],
+);
 
-export const chatMessages = pgTable("chat_messages", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull(),
-  message: text("message").notNull(),
-  response: text("response"),
-  timestamp: timestamp("timestamp").defaultNow(),
-  isUser: boolean("is_user").notNull(),
-});
+export const shoppingListItems = pgTable(
+  "shopping_list_items",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").references(() => users.id),
+    deviceId: varchar("device_id"),
+    productId: integer("product_id").notNull().references(() => products.id),
+    quantity: integer("quantity").default(1),
+    unitPriceMinor: integer("unit_price_minor"), // User-defined price override
+    currency: varchar("currency", { length: 3 }).default("USD"),
+    completed: boolean("completed").default(false),
+    addedAt: timestamp("added_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_shopping_list_items_user").on(table.userId),
+    index("IDX_shopping_list_items_device").on(table.deviceId),
+  ],
+);
+
+// Owned by a user or an anonymous device, like scan history
+export const chatMessages = pgTable(
+  "chat_messages",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id"),
+    deviceId: varchar("device_id"),
+    message: text("message").notNull(),
+    response: text("response"),
+    timestamp: timestamp("timestamp").defaultNow(),
+    isUser: boolean("is_user").notNull(),
+  },
+  (table) => [
+    index("IDX_chat_messages_user").on(table.userId),
+    index("IDX_chat_messages_device").on(table.deviceId),
+  ],
+);
 
 export const priceAlerts = pgTable("price_alerts", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   productId: integer("product_id").notNull().references(() => products.id),
-  targetPrice: text("target_price").notNull(),
+  targetPriceMinor: integer("target_price_minor").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   lastChecked: timestamp("last_checked"),
+  // Best price the alert last fired at; cleared once the price rises above the target again
+  lastTriggeredPriceMinor: integer("last_triggered_price_minor"),
 });
 
+// One row per time a price alert fired; clients poll these
+export const priceAlertEvents = pgTable(
+  "price_alert_events",
+  {
+    id: serial("id").primaryKey(),
+    alertId: integer("alert_id").notNull().references(() => priceAlerts.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    productId: integer("product_id").notNull().references(() => products.id),
+    retailerId: integer("retailer_id").references(() => retailers.id),
+    priceMinor: integer("price_minor").notNull(), // In the alert's currency
+    targetPriceMinor: integer("target_price_minor").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    triggeredAt: timestamp("triggered_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_price_alert_events_user_triggered").on(table.userId, table.triggeredAt)],
+);
+
 export const advertisements = pgTable("advertisements", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -139,24 +255,45 @@ export const affiliateClicks = pgTable("affiliate_clicks", {
   productId: integer("product_id").notNull().references(() => products.id),
   retailerId: integer("retailer_id").notNull().references(() => retailers.id),
   clickedAt: timestamp("clicked_at").defaultNow(),
-  affiliateUrl: text("affiliate_url").notNull(),
+  redirectedAt: timestamp("redirected_at"), // First time the shopper followed /go/:clickId to the retailer
+  affiliateUrl: text("affiliate_url").notNull(), // Retailer page the shopper is sent to
   commissionRate: text("commission_rate"),
-  estimatedCommission: text("estimated_commission"),
+  estimatedCommissionMinor: integer("estimated_commission_minor"),
   conversionTracked: boolean("conversion_tracked").default(false),
-  actualCommission: text("actual_commission"),
+  actualCommissionMinor: integer("actual_commission_minor"),
+  currency: varchar("currency", { length: 3 }).default("USD"),
   commissionPaidAt: timestamp("commission_paid_at"),
 });
 
+// Plan catalog. users.subscription_tier holds a plan id; entitlements are the feature keys
+// the plan unlocks (price_alerts, bulk_scanning, analytics, api_access, ...)
+export const subscriptionPlans = pgTable("subscription_plans", {
+  id: varchar("id").primaryKey(), // e.g. premium, premium-yearly
+  name: varchar("name").notNull(),
+  priceMinor: integer("price_minor").notNull(), // Per interval; 0 for the free plan
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  interval: varchar("interval").$type<"month" | "year">().notNull().default("month"),
+  features: jsonb("features").$type<string[]>().notNull().default([]), // Selling points shown on the plans page
+  entitlements: jsonb("entitlements").$type<string[]>().notNull().default([]),
+  dailyScanLimit: integer("daily_scan_limit"), // null for unlimited
+  badge: varchar("badge"), // e.g. "Most Popular"
+  sortOrder: integer("sort_order").notNull().default(0),
+  active: boolean("active").notNull().default(true), // Retired plans can't be bought but keep working for their subscribers
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Subscription payments and revenue tracking
 export const subscriptionPayments = pgTable("subscription_payments", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   planType: varchar("plan_type").notNull(), // premium, business
-  amount: text("amount").notNull(),
+  amountMinor: integer("amount_minor").notNull(),
   currency: varchar("currency").default("USD"),
   paymentMethod: varchar("payment_method"), // stripe, paypal, etc.
   paymentId: text("payment_id"), // External payment processor ID
-  status: varchar("status").default("pending"), // pending, completed, failed, refunded
+  status: varchar("status").default("pending"), // pending, processing (being captured), completed, failed, refunded
+  kind: varchar("kind").default("purchase"), // purchase, renewal, upgrade (prorated difference for the rest of the period)
+  previousPlanType: varchar("previous_plan_type"), // Plan an upgrade or renewal replaced; a refund switches back to it
   subscriptionStartDate: timestamp("subscription_start_date").notNull(),
   subscriptionEndDate: timestamp("subscription_end_date").notNull(),
   isRecurring: boolean("is_recurring").default(true),
@@ -167,10 +304,11 @@ export const subscriptionPayments = pgTable("subscription_payments", {
 export const revenueMetrics = pgTable("revenue_metrics", {
   id: serial("id").primaryKey(),
   date: timestamp("date").notNull(),
-  affiliateRevenue: text("affiliate_revenue").default("0.00"),
-  subscriptionRevenue: text("subscription_revenue").default("0.00"),
-  adRevenue: text("ad_revenue").default("0.00"),
-  totalRevenue: text("total_revenue").default("0.00"),
+  affiliateRevenueMinor: integer("affiliate_revenue_minor").default(0),
+  subscriptionRevenueMinor: integer("subscription_revenue_minor").default(0),
+  adRevenueMinor: integer("ad_revenue_minor").default(0),
+  totalRevenueMinor: integer("total_revenue_minor").default(0),
+  currency: varchar("currency", { length: 3 }).default("USD"),
   activeSubscribers: integer("active_subscribers").default(0),
   newSubscribers: integer("new_subscribers").default(0),
   churnedSubscribers: integer("churned_subscribers").default(0),
@@ -189,15 +327,79 @@ export const featureUsage = pgTable("feature_usage", {
   subscriptionTierAtUsage: varchar("subscription_tier_at_usage"),
 });
 
+// Cached responses from product lookup providers, including "not found" answers
+export const lookupCache = pgTable(
+  "lookup_cache",
+  {
+    id: serial("id").primaryKey(),
+    barcode: text("barcode").notNull(),
+    provider: varchar("provider").notNull(), // Lookup provider id, e.g. upcitemdb
+    found: boolean("found").notNull(),
+    payload: jsonb("payload"), // Provider response as returned by its lookup
+    fetchedAt: timestamp("fetched_at").defaultNow(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [uniqueIndex("IDX_lookup_cache_barcode_provider").on(table.barcode, table.provider)],
+);
+
+// Units of each currency per one unit of the base currency, loaded from a file or the admin endpoint
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: varchar("currency", { length: 3 }).primaryKey(),
+  base: varchar("base", { length: 3 }).notNull(),
+  rate: doublePrecision("rate").notNull(),
+  source: varchar("source"), // file, admin
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notification outbox: one row per user and channel, retried with backoff until sent.
+// In-app rows are delivered on insert and double as the user's inbox.
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    channel: varchar("channel").notNull(), // web_push, email, in_app
+    type: varchar("type").notNull(), // price_alert, subscription_expiring, subscription_expired, subscription_payment_failed, shared_list
+    title: text("title").notNull(),
+    body: text("body").notNull(),
+    url: text("url"), // In-app path the notification opens
+    dedupeKey: varchar("dedupe_key"), // The same key is only enqueued once per user and channel
+    status: varchar("status").notNull().default("pending"), // pending, sent, failed
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_notifications_status_next_attempt").on(table.status, table.nextAttemptAt),
+    index("IDX_notifications_user_channel").on(table.userId, table.channel, table.createdAt),
+    uniqueIndex("IDX_notifications_user_channel_dedupe").on(table.userId, table.channel, table.dedupeKey),
+  ],
+);
+
+// Browser push subscriptions registered through the Push API
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const productsRelations = relations(products, ({ many }) => ({
   prices: many(prices),
+  priceObservations: many(priceObservations),
   favorites: many(favorites),
   shoppingListItems: many(shoppingListItems),
 }));
 
 export const retailersRelations = relations(retailers, ({ many }) => ({
   prices: many(prices),
+  priceObservations: many(priceObservations),
 }));
 
 export const pricesRelations = relations(prices, ({ one }) => ({
@@ -211,6 +413,32 @@ export const pricesRelations = relations(prices, ({ one }) => ({
   }),
 }));
 
+export const priceObservationsRelations = relations(priceObservations, ({ one }) => ({
+  product: one(products, {
+    fields: [priceObservations.productId],
+    references: [products.id],
+  }),
+  retailer: one(retailers, {
+    fields: [priceObservations.retailerId],
+    references: [retailers.id],
+  }),
+}));
+
+export const priceAlertEventsRelations = relations(priceAlertEvents, ({ one }) => ({
+  alert: one(priceAlerts, {
+    fields: [priceAlertEvents.alertId],
+    references: [priceAlerts.id],
+  }),
+  product: one(products, {
+    fields: [priceAlertEvents.productId],
+    references: [products.id],
+  }),
+  retailer: one(retailers, {
+    fields: [priceAlertEvents.retailerId],
+    references: [retailers.id],
+  }),
+}));
+
 export const favoritesRelations = relations(favorites, ({ one }) => ({
   product: one(products, {
     fields: [favorites.productId],
@@ -280,7 +508,14 @@ export const featureUsageRelations = relations(featureUsage, ({ one }) => ({
   }),
 }));
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const productProvenanceSchema = z.record(
+  z.enum(["name", "brand", "description", "imageUrl", "category"]),
+  z.string(),
+);
+
+export const insertProductSchema = createInsertSchema(products, {
+  dataSources: productProvenanceSchema.nullish(),
+}).omit({
   id: true,
 });
 
@@ -290,6 +525,7 @@ export const insertRetailerSchema = createInsertSchema(retailers).omit({
 
 export const insertPriceSchema = createInsertSchema(prices).omit({
   id: true,
+  updatedAt: true,
 });
 
 export const insertScanHistorySchema = createInsertSchema(scanHistory).omit({
@@ -307,6 +543,15 @@ export const insertShoppingListItemSchema = createInsertSchema(shoppingListItems
   addedAt: true,
 });
 
+// What a shopper may change on a list item; unitPrice is typed text such as "4.99" (null clears it)
+export const shoppingListItemUpdateSchema = z.object({
+  quantity: z.number().int().positive(),
+  completed: z.boolean(),
+  unitPrice: z.string().max(32).nullable(),
+}).partial().strict();
+
+export type ShoppingListItemUpdate = z.infer<typeof shoppingListItemUpdateSchema>;
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
   timestamp: true,
@@ -316,6 +561,12 @@ export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
   id: true,
   createdAt: true,
   lastChecked: true,
+  lastTriggeredPriceMinor: true,
+});
+
+export const insertPriceAlertEventSchema = createInsertSchema(priceAlertEvents).omit({
+  id: true,
+  triggeredAt: true,
 });
 
 export const insertAdvertisementSchema = createInsertSchema(advertisements).omit({
@@ -338,6 +589,30 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+export type LoginToken = typeof loginTokens.$inferSelect;
+export type InsertLoginToken = typeof loginTokens.$inferInsert;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
+
+export const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, "Passwords need at least 8 characters"),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+// Users as sent to the client
+export type PublicUser = Omit<User, "passwordHash">;
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
@@ -359,6 +634,12 @@ export type InsertShoppingListItem = z.infer<typeof insertShoppingListItemSchema
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 
+export type PriceAlert = typeof priceAlerts.$inferSelect;
+export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
+
+export type PriceAlertEvent = typeof priceAlertEvents.$inferSelect;
+export type InsertPriceAlertEvent = z.infer<typeof insertPriceAlertEventSchema>;
+
 export type Advertisement = typeof advertisements.$inferSelect;
 export type InsertAdvertisement = z.infer<typeof insertAdvertisementSchema>;
 
@@ -376,6 +657,31 @@ export const insertSubscriptionPaymentSchema = createInsertSchema(subscriptionPa
   createdAt: true,
 });
 
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, "Currency codes are three upper-case letters");
+
+export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans, {
+  id: z.string().regex(/^[a-z0-9-]+$/, "Plan ids may only use a-z, 0-9 and -"),
+  priceMinor: z.number().int().nonnegative(),
+  currency: currencyCodeSchema.optional(),
+  interval: z.enum(["month", "year"]).optional(),
+  features: z.array(z.string()).optional(),
+  entitlements: z.array(z.string().regex(/^[a-z0-9_]+$/, "Entitlements are snake_case feature keys")).optional(),
+  dailyScanLimit: z.number().int().positive().nullish(),
+}).omit({
+  updatedAt: true,
+});
+
+// Settings a signed-in user changes for themselves; fields left out keep their values
+export const userPreferencesSchema = z.object({
+  preferredCurrency: z.string().trim().toUpperCase().pipe(currencyCodeSchema),
+  region: z.string().trim().toUpperCase()
+    .refine(region => Object.hasOwn(SALES_TAX_RATES, region), "Region must be a US state code")
+    .nullable(),
+  memberships: z.array(z.string().refine(membership => MEMBERSHIPS.includes(membership), "Unknown membership")),
+}).partial();
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
 export const insertRevenueMetricSchema = createInsertSchema(revenueMetrics).omit({
   id: true,
   createdAt: true,
@@ -389,6 +695,9 @@ export const insertFeatureUsageSchema = createInsertSchema(featureUsage).omit({
 export type AffiliateClick = typeof affiliateClicks.$inferSelect;
 export type InsertAffiliateClick = z.infer<typeof insertAffiliateClickSchema>;
 
+export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
+
 export type SubscriptionPayment = typeof subscriptionPayments.$inferSelect;
 export type InsertSubscriptionPayment = z.infer<typeof insertSubscriptionPaymentSchema>;
 
@@ -398,29 +707,152 @@ export type InsertRevenueMetric = z.infer<typeof insertRevenueMetricSchema>;
 export type FeatureUsage = typeof featureUsage.$inferSelect;
 export type InsertFeatureUsage = z.infer<typeof insertFeatureUsageSchema>;
 
+export const insertLookupCacheSchema = createInsertSchema(lookupCache).omit({
+  id: true,
+  fetchedAt: true,
+});
+
+export type LookupCacheEntry = typeof lookupCache.$inferSelect;
+export type InsertLookupCacheEntry = z.infer<typeof insertLookupCacheSchema>;
+
+export const insertPriceObservationSchema = createInsertSchema(priceObservations).omit({
+  id: true,
+  observedAt: true,
+});
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+export const exchangeRatesSchema = z.object({
+  base: currencyCodeSchema,
+  rates: z.record(currencyCodeSchema, z.number().positive()),
+});
+
+export type PriceObservation = typeof priceObservations.$inferSelect;
+export type InsertPriceObservation = z.infer<typeof insertPriceObservationSchema>;
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+export type NotificationChannelName = "web_push" | "email" | "in_app";
+export type NotificationType = "price_alert" | "subscription_expiring" | "subscription_expired" | "subscription_payment_failed" | "shared_list";
+
 // Client-side types for API responses
 export interface ProductWithPrices extends Product {
   prices: (Price & { retailer: Retailer })[];
 }
 
+export type ProductInfoField = "name" | "brand" | "description" | "imageUrl" | "category";
+
+// Maps each product field to the display name of the lookup source that supplied it
+export type ProductProvenance = Partial<Record<ProductInfoField, string>>;
+
+export type ProviderStatus = "success" | "not_found" | "error" | "timeout" | "rate_limited";
+
+export interface ProviderOutcome {
+  provider: string;
+  status: ProviderStatus;
+  durationMs: number;
+  cached?: boolean; // Answer served from the lookup cache
+  error?: string;
+}
+
+export interface LookupReport {
+  sources: string[];
+  providers: ProviderOutcome[];
+}
+
+// Per-retailer result of a price refresh
+export interface PriceChange {
+  retailer: string;
+  change: "added" | "updated" | "unchanged";
+  price: Money;
+  previousPrice?: Money;
+  stock: string | null;
+  previousStock?: string | null;
+}
+
+export type PriceHistoryInterval = "day" | "week";
+
+// Prices seen for one retailer within a day or week bucket, in major units for charting
+export interface PriceHistoryPoint {
+  bucket: string; // ISO date of the bucket start (UTC)
+  low: number;
+  high: number;
+  average: number;
+  last: number;
+  observations: number;
+}
+
+// A retailer that changed currency has one series per currency
+export interface PriceHistorySeries {
+  retailer: string;
+  currency: string;
+  points: PriceHistoryPoint[];
+}
+
+export interface PriceHistory {
+  barcode: string;
+  interval: PriceHistoryInterval;
+  from: string;
+  to: string;
+  series: PriceHistorySeries[];
+}
+
+export type OfferAvailability = "in_stock" | "out_of_stock" | "limited" | "unknown";
+
+// One retailer's offer, normalized across barcode lookup providers and merchant pricing APIs
+export interface Offer {
+  retailer: string;
+  price: Money; // In the retailer's own currency
+  convertedPrice: Money | null; // In the display currency; null when no exchange rate is known
+  shipping: Money | null; // null when the source did not report shipping
+  landedCost: LandedCost | null; // Price plus shipping and tax, in the retailer's currency
+  convertedLandedCost: Money | null; // landedCost.total in the display currency
+  availability: OfferAvailability;
+  url: string | null;
+  source: string | null;
+  lastUpdated: string; // ISO timestamp
+}
+
 export interface ScanResult {
   product: ProductWithPrices;
-  bestPrice: string;
+  bestPrice: string; // Lowest landed cost
+  offers: Offer[]; // Cheapest landed cost first
+  displayCurrency: string; // Currency of bestPrice, savings and each offer's convertedPrice
+  savings: Money; // Highest minus lowest available landed cost
+  lookup?: LookupReport; // Present when upstream providers were queried for this request
 }
 
 // Monetization interfaces
-export interface SubscriptionPlan {
-  id: string;
-  name: string;
-  price: string;
-  currency: string;
-  interval: "month" | "year";
-  features: string[];
-  dailyScanLimit?: number;
-  priceAlerts: boolean;
-  bulkScanning: boolean;
-  analytics: boolean;
-  apiAccess: boolean;
+
+// GET /api/subscription/status
+export interface SubscriptionStatus {
+  tier: string; // Plan id
+  entitlements: string[]; // Feature keys the plan unlocks
+  expiresAt: string | null;
+  autoRenew: boolean; // False after cancelling: the plan ends at expiresAt
+  renewalPlan: string | null; // Plan id the next renewal switches to
+  pastDue: boolean; // Renewal payment failed; the plan stays active through a grace period while it is retried
+  scanLimits: {
+    canScan: boolean;
+    scansUsed: number;
+    scansRemaining: number; // -1 when unlimited
+    dailyLimit: number | null; // null when unlimited
+    resetTime?: string; // Next midnight in the user's time zone
+  };
 }
 
 export interface RevenueAnalytics {